@@ -6,18 +6,46 @@ export {
   number,
   boolean,
   date,
+  duration,
+  dateRange,
   enumType,
   entity,
+  literal,
+  citation,
+  money,
+  quantity,
   array,
-  object
+  object,
+  record,
+  lazy,
+  named,
+  withConfidence,
+  union,
+  discriminatedUnion
 } from './schema/fields';
 
 export type {
   SchemaOptions,
   SchemaValidationResult,
   ParseIssue,
+  ParseOptions,
+  Citation,
+  DateRange,
+  MoneyValue,
+  QuantityValue,
+  CoercionRecord,
+  ConfidenceRecord,
+  EntityRegistry,
+  EntityResolver,
+  KnownEntity,
+  UnknownKeysPolicy,
+  Refinement,
+  RefinementContext,
+  RefinementIssue,
   SchemaOutput,
+  DeepPartial,
   SchemaDefinition,
+  TextFormat,
   JsonSchema,
   OpenAIToolOptions,
   AnthropicToolOptions
@@ -25,6 +53,22 @@ export type {
 
 export { SchemaError } from './schema/types';
 
+export { repairJson, builtInRepairStrategies } from './schema/repair';
+
+export type {
+  RepairOptions,
+  RepairStrategy,
+  AppliedRepair,
+  RepairParseResult,
+  BuiltInRepairName
+} from './schema/repair';
+
+export type { PartialParseResult, PartialStatus } from './schema/partial';
+
+export { fromJsonSchema } from './schema/importers';
+
+export type { JsonSchemaImportResult, JsonSchemaImportIssue } from './schema/importers';
+
 export {
   SchemaRenderer,
   SchemaField,
@@ -50,6 +94,7 @@ export {
   searchSchemaData,
   extractEntities,
   collectMarkdownFields,
+  serializeSchemaData,
   validateSchemaData
 } from './schema/transform';
 
@@ -60,5 +105,6 @@ export type {
   SearchOptions,
   EntityRecord,
   MarkdownFieldRecord,
-  MergeOptions
+  MergeOptions,
+  SerializeOptions
 } from './schema/transform';
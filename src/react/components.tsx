@@ -3,21 +3,47 @@ import type { CSSProperties } from 'react';
 import type { Schema } from '../schema/builder';
 import type {
   AnyFieldDefinition,
+  Citation,
+  ConfidenceRecord,
+  DateRange,
+  MoneyValue,
   ParseIssue,
+  QuantityValue,
   SchemaDefinition,
   SchemaOutput
 } from '../schema/types';
 import {
   isArrayField,
   isBooleanField,
+  isCitationField,
+  isConfidenceField,
   isDateField,
+  isDateRangeField,
+  isDurationField,
+  isDiscriminatedUnionField,
   isEntityField,
   isEnumField,
+  isLazyField,
+  isLiteralField,
   isMarkdownField,
+  isMoneyField,
   isNumberField,
   isObjectField,
-  isTextField
+  isPrimitiveArrayField,
+  isQuantityField,
+  isRecordField,
+  isTextField,
+  isUnionField
 } from '../schema/typeGuards';
+import {
+  enumLabel,
+  formatDuration,
+  formatMoney,
+  formatQuantity,
+  matchUnionMember,
+  selectVariant,
+  textFormats
+} from '../schema/internal';
 import { MarkdownField } from './MarkdownField';
 
 type FieldComponentProps = {
@@ -35,8 +61,15 @@ export interface RendererComponents {
   number: FieldRenderer;
   boolean: FieldRenderer;
   date: FieldRenderer;
+  duration: FieldRenderer;
+  dateRange: FieldRenderer;
   enum: FieldRenderer;
   entity: FieldRenderer;
+  literal: FieldRenderer;
+  variant: FieldRenderer;
+  citation: FieldRenderer;
+  money: FieldRenderer;
+  quantity: FieldRenderer;
 }
 
 export interface RendererConfig {
@@ -44,6 +77,8 @@ export interface RendererConfig {
   showOptionalFields?: boolean;
   hiddenFields?: string[];
   labelFormatter?: (params: { path: string; field: AnyFieldDefinition }) => string;
+  confidences?: ConfidenceRecord[];
+  lowConfidenceThreshold?: number;
   stylePreset?: 'card' | 'plain';
   styles?: Partial<RendererStyles>;
 }
@@ -266,16 +301,21 @@ function mergeRendererStyles(
   return merged;
 }
 
+const nullAware =
+  (render: FieldRenderer): FieldRenderer =>
+  (props) =>
+    props.value === null ? <em className="llm-schema-null">None</em> : render(props);
+
 const defaultComponents: RendererComponents = {
-  text: ({ value }) => <span>{String(value ?? '')}</span>,
-  markdown: ({ value }) => {
+  text: nullAware(({ value }) => <span>{String(value ?? '')}</span>),
+  markdown: nullAware(({ value }) => {
     const content =
       typeof value === 'string' ? value : value == null ? '' : String(value);
     return <MarkdownField content={content} className="llm-schema-renderer__markdown" />;
-  },
-  number: ({ value }) => <span>{String(value ?? '')}</span>,
-  boolean: ({ value }) => <span>{value ? 'Yes' : 'No'}</span>,
-  date: ({ value }) => {
+  }),
+  number: nullAware(({ value }) => <span>{String(value ?? '')}</span>),
+  boolean: nullAware(({ value }) => <span>{value ? 'Yes' : 'No'}</span>),
+  date: nullAware(({ value }) => {
     if (value instanceof Date) {
       return <time dateTime={value.toISOString()}>{value.toLocaleString()}</time>;
     }
@@ -283,12 +323,61 @@ const defaultComponents: RendererComponents = {
       return <time dateTime={value}>{value}</time>;
     }
     return <span>{String(value ?? '')}</span>;
-  },
-  enum: ({ value }) => <span>{String(value ?? '')}</span>,
-  entity: ({ value }) => <code>{String(value ?? '')}</code>
+  }),
+  duration: nullAware(({ value }) =>
+    typeof value === 'string' ? <time dateTime={value}>{formatDuration(value)}</time> : <span />
+  ),
+  dateRange: nullAware(({ value, field }) => {
+    const { start, end } = (value ?? {}) as Partial<DateRange>;
+    if (!(start instanceof Date) || !(end instanceof Date)) return <span />;
+    const dateOnly = !isDateRangeField(field) || field.options.format !== 'date-time';
+    const format = (bound: Date) =>
+      dateOnly ? bound.toLocaleDateString(undefined, { timeZone: 'UTC' }) : bound.toLocaleString();
+    return (
+      <span className="llm-schema-date-range">
+        <time dateTime={start.toISOString()}>{format(start)}</time>
+        {' – '}
+        <time dateTime={end.toISOString()}>{format(end)}</time>
+      </span>
+    );
+  }),
+  enum: nullAware(({ value, field }) => (
+    <span>{isEnumField(field) ? enumLabel(field.options, String(value ?? '')) : String(value ?? '')}</span>
+  )),
+  entity: nullAware(({ value }) => <code>{String(value ?? '')}</code>),
+  literal: ({ value, field }) => <code>{String(isLiteralField(field) ? field.value : value ?? '')}</code>,
+  variant: ({ value }) => <span>{String(value ?? '')}</span>,
+  citation: nullAware(({ value }) => {
+    const { quote, start, end } = (value ?? {}) as Partial<Citation>;
+    const hasOffsets = start !== undefined && end !== undefined;
+    return (
+      <q
+        className="llm-schema-citation"
+        title={hasOffsets ? `Source, characters ${start}–${end}` : 'Quoted from source'}
+        data-start={start}
+        data-end={end}
+        tabIndex={0}
+      >
+        {quote ?? ''}
+      </q>
+    );
+  }),
+  money: nullAware(({ value, field }) => {
+    const { amount, currency } = (value ?? {}) as Partial<MoneyValue>;
+    if (typeof amount !== 'number' || !currency) return <span />;
+    const locale = isMoneyField(field) ? field.options.locale : undefined;
+    return <data value={amount}>{formatMoney(amount, currency, locale)}</data>;
+  }),
+  quantity: nullAware(({ value, field }) => {
+    const { value: amount, unit } = (value ?? {}) as Partial<QuantityValue>;
+    if (typeof amount !== 'number' || !unit) return <span />;
+    const locale = isQuantityField(field) ? field.options.locale : undefined;
+    return <data value={amount}>{formatQuantity(amount, unit, locale)}</data>;
+  })
 };
 
 function formatLabel(key: string) {
+  if (/^\d+$/.test(key)) return `#${Number(key) + 1}`;
   const withSpaces = key.replace(/([A-Z])/g, ' $1');
   return withSpaces.charAt(0).toUpperCase() + withSpaces.slice(1);
 }
@@ -307,6 +396,24 @@ function renderFieldValue(
   styles: RendererStyles,
   depth: number
 ): React.ReactNode {
+  if (isConfidenceField(field)) {
+    const rendered = renderFieldValue(field.inner, value, path, components, config, styles, depth);
+    const confidence = config?.confidences?.find((entry) => entry.path.join('.') === path)?.confidence;
+    if (confidence === undefined || !React.isValidElement<React.HTMLAttributes<HTMLElement>>(rendered)) {
+      return rendered;
+    }
+    const low = confidence < (config?.lowConfidenceThreshold ?? 0.5);
+    return React.cloneElement(rendered, {
+      className: [rendered.props.className, low ? 'llm-schema-field--low-confidence' : null].filter(Boolean).join(' '),
+      title: `${low ? 'Low confidence' : 'Confidence'}: ${Math.round(confidence * 100)}%`,
+      'data-confidence': confidence
+    } as React.HTMLAttributes<HTMLElement>);
+  }
+
+  if (isLazyField(field)) {
+    return renderFieldValue(field.resolve(), value, path, components, config, styles, depth);
+  }
+
   const label =
     config?.labelFormatter?.({ path, field }) ??
     formatLabel(path.split('.').slice(-1)[0] ?? path);
@@ -338,8 +445,14 @@ function renderFieldValue(
   if (isNumberField(field)) return renderPrimitive('number');
   if (isBooleanField(field)) return renderPrimitive('boolean');
   if (isDateField(field)) return renderPrimitive('date');
+  if (isDurationField(field)) return renderPrimitive('duration');
+  if (isDateRangeField(field)) return renderPrimitive('dateRange');
   if (isEnumField(field)) return renderPrimitive('enum');
   if (isEntityField(field)) return renderPrimitive('entity');
+  if (isLiteralField(field)) return renderPrimitive('literal');
+  if (isCitationField(field)) return renderPrimitive('citation');
+  if (isMoneyField(field)) return renderPrimitive('money');
+  if (isQuantityField(field)) return renderPrimitive('quantity');
 
   if (isArrayField(field)) {
     const items = Array.isArray(value) ? value : [];
@@ -386,6 +499,35 @@ function renderFieldValue(
     );
   }
 
+  if (isPrimitiveArrayField(field)) {
+    const items = Array.isArray(value) ? value : [];
+    return (
+      <div
+        className="llm-schema-field"
+        data-kind="array"
+        data-path={path}
+        style={fieldStyle}
+      >
+        <dt style={styles.label}>{label}</dt>
+        <dd style={styles.value}>
+          {items.length === 0 ? (
+            <em style={styles.missing}>No entries</em>
+          ) : (
+            <ol style={styles.list}>
+              {items.map((item, index) => (
+                <li key={index} style={styles.listItem}>
+                  <dl className="llm-schema-group" style={styles.nestedGroup ?? styles.group}>
+                    {renderFieldValue(field.item, item, `${path}.${index}`, components, config, styles, depth + 1)}
+                  </dl>
+                </li>
+              ))}
+            </ol>
+          )}
+        </dd>
+      </div>
+    );
+  }
+
   if (isObjectField(field)) {
     return (
       <div
@@ -410,6 +552,77 @@ function renderFieldValue(
     );
   }
 
+  if (isRecordField(field)) {
+    const entries = value && typeof value === 'object' ? Object.entries(value as Record<string, unknown>) : [];
+    return (
+      <div
+        className="llm-schema-field"
+        data-kind="record"
+        data-path={path}
+        style={fieldStyle}
+      >
+        <dt style={labelStyle}>{label}</dt>
+        <dd style={styles.value}>
+          {entries.length === 0 ? (
+            <em style={styles.missing}>No entries</em>
+          ) : (
+            <dl className="llm-schema-group" style={styles.nestedGroup ?? styles.group}>
+              {entries.map(([key, entryValue]) => (
+                <React.Fragment key={key}>
+                  {renderFieldValue(field.value, entryValue, `${path}.${key}`, components, config, styles, depth + 1)}
+                </React.Fragment>
+              ))}
+            </dl>
+          )}
+        </dd>
+      </div>
+    );
+  }
+
+  if (isUnionField(field)) {
+    const member = matchUnionMember(field, value);
+    if (member) {
+      return renderFieldValue(member, value, path, components, config, styles, depth);
+    }
+  }
+
+  if (isDiscriminatedUnionField(field)) {
+    const variant = selectVariant(field, value);
+    if (variant) {
+      // The discriminator is rendered from the union itself, so editors can offer every variant.
+      const { [field.discriminator]: _tag, ...definition } = variant;
+      const tagPath = `${path}.${field.discriminator}`;
+      const tag = (value as Record<string, unknown>)[field.discriminator];
+      const tagLabel = config?.labelFormatter?.({ path: tagPath, field }) ?? formatLabel(field.discriminator);
+      return (
+        <div
+          className="llm-schema-field"
+          data-kind="union"
+          data-path={path}
+          style={fieldStyle}
+        >
+          <dt style={labelStyle}>{label}</dt>
+          <dd style={styles.value}>
+            <dl className="llm-schema-group" style={styles.nestedGroup ?? styles.group}>
+              <div
+                className="llm-schema-field"
+                data-kind="variant"
+                data-path={tagPath}
+                style={styles.nestedField ?? styles.field}
+              >
+                <dt style={styles.nestedLabel ?? styles.label}>{tagLabel}</dt>
+                <dd style={styles.value}>
+                  {components.variant({ value: tag, field, path: tagPath, label: tagLabel })}
+                </dd>
+              </div>
+            </dl>
+            {renderNestedFields(definition, value, path, components, config, styles, depth + 1)}
+          </dd>
+        </div>
+      );
+    }
+  }
+
   return renderPrimitive('text');
 }
 
@@ -606,14 +819,91 @@ export function SchemaEditor<Definition extends SchemaDefinition>({
   );
 
   const renderInput = (field: AnyFieldDefinition, value: unknown, path: string) => {
+    const emptyValue = field.nullable ? null : undefined;
+
     if (isTextField(field) || isEntityField(field)) {
       const inputValue = typeof value === 'string' ? value : '';
+      const format = isTextField(field) ? field.options.format : undefined;
       return (
         <input
-          type="text"
+          type={format ? textFormats[format].inputType : 'text'}
           disabled={disabled}
           value={inputValue}
+          onChange={(event) =>
+            handleChange(path, event.target.value === '' && field.nullable ? null : event.target.value)
+          }
+        />
+      );
+    }
+
+    if (isLiteralField(field)) {
+      return <input type="text" readOnly disabled={disabled} value={String(field.value)} />;
+    }
+
+    if (isDiscriminatedUnionField(field)) {
+      return (
+        <select
+          disabled={disabled}
+          value={typeof value === 'string' ? value : ''}
           onChange={(event) => handleChange(path, event.target.value)}
+        >
+          {Object.keys(field.variants).map((tag) => (
+            <option key={tag} value={tag}>
+              {tag}
+            </option>
+          ))}
+        </select>
+      );
+    }
+
+    if (isMoneyField(field) || isQuantityField(field)) {
+      const [amountKey, labelKey] = isMoneyField(field) ? ['amount', 'currency'] : ['value', 'unit'];
+      const labels = isMoneyField(field) ? field.options.currencies : field.options.units;
+      const current = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+      const amount = current[amountKey];
+      const label = typeof current[labelKey] === 'string' ? (current[labelKey] as string) : '';
+      const update = (key: string, next: unknown) => handleChange(path, { ...current, [key]: next });
+      return (
+        <span className="llm-schema-editor-measure">
+          <input
+            type="number"
+            disabled={disabled}
+            value={typeof amount === 'number' ? amount : ''}
+            onChange={(event) => update(amountKey, event.target.value === '' ? undefined : Number(event.target.value))}
+          />
+          {labels ? (
+            <select disabled={disabled} value={label} onChange={(event) => update(labelKey, event.target.value)}>
+              <option value="" disabled>
+                Select…
+              </option>
+              {labels.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type="text"
+              disabled={disabled}
+              value={label}
+              onChange={(event) => update(labelKey, event.target.value)}
+            />
+          )}
+        </span>
+      );
+    }
+
+    if (isCitationField(field)) {
+      const current = value && typeof value === 'object' ? (value as Partial<Citation>) : {};
+      return (
+        <textarea
+          disabled={disabled}
+          value={current.quote ?? ''}
+          rows={3}
+          onChange={(event) =>
+            handleChange(path, event.target.value === '' ? emptyValue : { ...current, quote: event.target.value })
+          }
         />
       );
     }
@@ -625,7 +915,9 @@ export function SchemaEditor<Definition extends SchemaDefinition>({
           disabled={disabled}
           value={inputValue}
           rows={6}
-          onChange={(event) => handleChange(path, event.target.value)}
+          onChange={(event) =>
+            handleChange(path, event.target.value === '' && field.nullable ? null : event.target.value)
+          }
         />
       );
     }
@@ -640,11 +932,11 @@ export function SchemaEditor<Definition extends SchemaDefinition>({
           onChange={(event) => {
             const nextRaw = event.target.value;
             if (nextRaw === '') {
-              handleChange(path, undefined);
+              handleChange(path, emptyValue);
               return;
             }
             const next = Number(nextRaw);
-            handleChange(path, Number.isNaN(next) ? undefined : next);
+            handleChange(path, Number.isNaN(next) ? emptyValue : next);
           }}
         />
       );
@@ -678,33 +970,68 @@ export function SchemaEditor<Definition extends SchemaDefinition>({
           value={inputValue}
           onChange={(event) => {
             const next = event.target.value;
-            handleChange(path, next ? new Date(next) : undefined);
+            handleChange(path, next ? new Date(next) : emptyValue);
           }}
         />
       );
     }
 
+    if (isDurationField(field)) {
+      return (
+        <input
+          type="text"
+          placeholder="PT45M"
+          disabled={disabled}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(event) => handleChange(path, event.target.value === '' ? emptyValue : event.target.value)}
+        />
+      );
+    }
+
+    if (isDateRangeField(field)) {
+      const dateOnly = field.options.format !== 'date-time';
+      const current = value && typeof value === 'object' ? (value as Partial<DateRange>) : {};
+      const toInputValue = (bound: unknown) =>
+        bound instanceof Date ? bound.toISOString().slice(0, dateOnly ? 10 : 16) : '';
+      const update = (key: keyof DateRange, next: string) =>
+        handleChange(path, { ...current, [key]: next ? new Date(next) : undefined });
+      return (
+        <span className="llm-schema-editor-range">
+          {(['start', 'end'] as const).map((key) => (
+            <input
+              key={key}
+              type={dateOnly ? 'date' : 'datetime-local'}
+              aria-label={key === 'start' ? 'Start' : 'End'}
+              disabled={disabled}
+              value={toInputValue(current[key])}
+              onChange={(event) => update(key, event.target.value)}
+            />
+          ))}
+        </span>
+      );
+    }
+
     if (isEnumField(field)) {
       const selected = typeof value === 'string' ? value : '';
       return (
         <select
           disabled={disabled}
           value={selected}
-          onChange={(event) => handleChange(path, event.target.value)}
+          onChange={(event) => handleChange(path, event.target.value === '' ? emptyValue : event.target.value)}
         >
-          <option value="" disabled>
-            Select…
+          <option value="" disabled={!field.nullable}>
+            {field.nullable ? 'None' : 'Select…'}
           </option>
           {field.values.map((option) => (
             <option key={option} value={option}>
-              {option}
+              {enumLabel(field.options, option)}
             </option>
           ))}
         </select>
       );
     }
 
-    if (isArrayField(field) || isObjectField(field)) {
+    if (isArrayField(field) || isPrimitiveArrayField(field) || isObjectField(field) || isRecordField(field)) {
       return (
         <textarea
           disabled={disabled}
@@ -842,6 +1169,99 @@ export function SchemaEditor<Definition extends SchemaDefinition>({
                 </p>
               ))}
             </div>
+          ),
+          citation: ({ value, field, path: fieldPath, label }) => (
+            <div className="llm-schema-editor-field">
+              <label>
+                <span>{label}</span>
+                {renderInput(field, value, fieldPath)}
+              </label>
+              {issuesByPath.get(fieldPath)?.map((issue, index) => (
+                <p key={index} className="llm-schema-editor-error">
+                  {issue.message}
+                </p>
+              ))}
+            </div>
+          ),
+          duration: ({ value, field, path: fieldPath, label }) => (
+            <div className="llm-schema-editor-field">
+              <label>
+                <span>{label}</span>
+                {renderInput(field, value, fieldPath)}
+              </label>
+              {issuesByPath.get(fieldPath)?.map((issue, index) => (
+                <p key={index} className="llm-schema-editor-error">
+                  {issue.message}
+                </p>
+              ))}
+            </div>
+          ),
+          dateRange: ({ value, field, path: fieldPath, label }) => (
+            <div className="llm-schema-editor-field">
+              <label>
+                <span>{label}</span>
+                {renderInput(field, value, fieldPath)}
+              </label>
+              {[fieldPath, `${fieldPath}.start`, `${fieldPath}.end`].flatMap((issuePath) =>
+                (issuesByPath.get(issuePath) ?? []).map((issue, index) => (
+                  <p key={`${issuePath}-${index}`} className="llm-schema-editor-error">
+                    {issue.message}
+                  </p>
+                ))
+              )}
+            </div>
+          ),
+          literal: ({ value, field, path: fieldPath, label }) => (
+            <div className="llm-schema-editor-field">
+              <label>
+                <span>{label}</span>
+                {renderInput(field, value, fieldPath)}
+              </label>
+              {issuesByPath.get(fieldPath)?.map((issue, index) => (
+                <p key={index} className="llm-schema-editor-error">
+                  {issue.message}
+                </p>
+              ))}
+            </div>
+          ),
+          variant: ({ value, field, path: fieldPath, label }) => (
+            <div className="llm-schema-editor-field">
+              <label>
+                <span>{label}</span>
+                {renderInput(field, value, fieldPath)}
+              </label>
+              {issuesByPath.get(fieldPath)?.map((issue, index) => (
+                <p key={index} className="llm-schema-editor-error">
+                  {issue.message}
+                </p>
+              ))}
+            </div>
+          ),
+          money: ({ value, field, path: fieldPath, label }) => (
+            <div className="llm-schema-editor-field">
+              <label>
+                <span>{label}</span>
+                {renderInput(field, value, fieldPath)}
+              </label>
+              {issuesByPath.get(fieldPath)?.map((issue, index) => (
+                <p key={index} className="llm-schema-editor-error">
+                  {issue.message}
+                </p>
+              ))}
+            </div>
+          ),
+          quantity: ({ value, field, path: fieldPath, label }) => (
+            <div className="llm-schema-editor-field">
+              <label>
+                <span>{label}</span>
+                {renderInput(field, value, fieldPath)}
+              </label>
+              {issuesByPath.get(fieldPath)?.map((issue, index) => (
+                <p key={index} className="llm-schema-editor-error">
+                  {issue.message}
+                </p>
+              ))}
+            </div>
           )
         },
         config,
@@ -1,7 +1,11 @@
 import {
   type AnthropicToolOptions,
+  type AnyFieldDefinition,
+  type EntityRegistry,
   type JsonSchema,
+  type LazyFieldDefinition,
   type OpenAIToolOptions,
+  type ParseOptions,
   type SchemaDefinition,
   type SchemaOptions,
   type SchemaOutput,
@@ -9,7 +13,9 @@ import {
   type SchemaValidationResult,
   SchemaError
 } from './types';
-import { parseRoot } from './validation';
+import { parseRoot, parseRootAsync } from './validation';
+import { repairJson, type RepairOptions, type RepairParseResult } from './repair';
+import { parsePartialDefinition, type PartialParseResult } from './partial';
 import { definitionToJsonSchema, toAnthropicToolSchema, toOpenAIToolSchema } from './exporters';
 import {
   diffSchemaData,
@@ -17,32 +23,63 @@ import {
   searchSchemaData,
   extractEntities,
   collectMarkdownFields,
+  serializeSchemaData,
   type DiffResult,
   type MergeOptions,
   type SearchOptions,
   type SearchResult,
   type EntityRecord,
-  type MarkdownFieldRecord
+  type MarkdownFieldRecord,
+  type SerializeOptions
 } from './transform';
 import {
   isArrayField,
   isBooleanField,
+  isCitationField,
+  isConfidenceField,
   isDateField,
+  isDateRangeField,
+  isDurationField,
+  isDiscriminatedUnionField,
   isEntityField,
   isEnumField,
+  isLazyField,
+  isLiteralField,
   isMarkdownField,
+  isMoneyField,
   isNumberField,
   isObjectField,
-  isTextField
+  isPrimitiveArrayField,
+  isQuantityField,
+  isRecordField,
+  isTextField,
+  isUnionField
 } from './typeGuards';
+import {
+  describeEnumLabels,
+  formatMoney,
+  formatQuantity,
+  getDefinitionName,
+  resolveLazy,
+  textFormats,
+  uniqueName
+} from './internal';
+import { describeMarkdownMentions, describeMarkdownRules, describeMarkdownStructure } from './markdown';
 
 export interface Schema<Definition extends SchemaDefinition> {
   readonly definition: Definition;
   readonly options: Required<SchemaOptions>;
 
-  parse(input: unknown): SchemaOutput<Definition>;
-  safeParse(input: unknown): SchemaValidationResult<SchemaOutput<Definition>>;
-  validate(input: unknown): SchemaValidationResult<SchemaOutput<Definition>>;
+  parse(input: unknown, options?: ParseOptions): SchemaOutput<Definition>;
+  safeParse(input: unknown, options?: ParseOptions): SchemaValidationResult<SchemaOutput<Definition>>;
+  parseAsync(input: unknown, options?: ParseOptions): Promise<SchemaOutput<Definition>>;
+  safeParseAsync(input: unknown, options?: ParseOptions): Promise<SchemaValidationResult<SchemaOutput<Definition>>>;
+  validate(input: unknown, options?: ParseOptions): SchemaValidationResult<SchemaOutput<Definition>>;
+  parseWithRepair(
+    input: unknown,
+    options?: RepairOptions & ParseOptions
+  ): RepairParseResult<SchemaOutput<Definition>>;
+  parsePartial(chunkOrBuffer: string | readonly string[]): PartialParseResult<SchemaOutput<Definition>>;
   toPrompt(options?: SchemaPromptOptions): string;
   toJsonSchema(): JsonSchema;
   toOpenAITool(options?: OpenAIToolOptions): ReturnType<typeof toOpenAIToolSchema>;
@@ -54,12 +91,13 @@ export interface Schema<Definition extends SchemaDefinition> {
     options?: MergeOptions
   ): SchemaOutput<Definition>;
   search(data: SchemaOutput<Definition>, query: string, options?: SearchOptions): SearchResult[];
-  getEntities(data: SchemaOutput<Definition>, type?: string): EntityRecord[];
+  getEntities(data: SchemaOutput<Definition>, type?: string, registry?: EntityRegistry): EntityRecord[];
   getMarkdownFields(data: SchemaOutput<Definition>): MarkdownFieldRecord[];
+  serialize(data: SchemaOutput<Definition>, options?: SerializeOptions): Record<string, unknown>;
   getDefinition(): Definition;
 }
 
-type SchemaConfig = SchemaOptions;
+type SchemaConfig<Definition extends SchemaDefinition> = SchemaOptions<SchemaOutput<Definition>>;
 
 function normalizeOptions(options?: SchemaOptions): Required<SchemaOptions> {
   return {
@@ -67,6 +105,10 @@ function normalizeOptions(options?: SchemaOptions): Required<SchemaOptions> {
     description: options?.description ?? '',
     version: options?.version ?? '1.0.0',
     strict: options?.strict ?? false,
+    unknownKeys: options?.unknownKeys ?? (options?.strict ? 'error' : 'strip'),
+    coerce: options?.coerce ?? false,
+    entities: options?.entities ?? {},
+    rules: options?.rules ?? [],
     examples: options?.examples ?? []
   };
 }
@@ -78,12 +120,21 @@ function getRequiredFields(definition: SchemaDefinition): string[] {
 }
 
 function buildFieldComment(field: SchemaDefinition[string], mode: 'json' | 'typescript'): string {
+  if (isConfidenceField(field)) {
+    const innerComment = buildFieldComment(field.inner, mode);
+    return [innerComment, 'confidence from 0 (guess) to 1 (stated explicitly)'].filter(Boolean).join(', ');
+  }
+
   const segments: string[] = [];
 
   if (mode === 'json' && field.optional) {
     segments.push('optional');
   }
 
+  if (mode === 'json' && field.nullable) {
+    segments.push('nullable');
+  }
+
   if (field.description) {
     const desc = field.description.endsWith('.') ? field.description : `${field.description}`;
     segments.push(desc);
@@ -95,8 +146,11 @@ function buildFieldComment(field: SchemaDefinition[string], mode: 'json' | 'type
     segments.push(note);
   }
 
-  if (isEnumField(field)) {
-    // Union type already communicates allowed values; no need to repeat.
+  const enumField = isEnumField(field) ? field : isPrimitiveArrayField(field) && isEnumField(field.item) ? field.item : undefined;
+  if (enumField) {
+    // The union type already lists the values; only their labels are added.
+    const labels = describeEnumLabels(enumField.values, enumField.options);
+    if (labels) segments.push(labels);
   }
 
   if (isNumberField(field) && !/range|min|max/.test(noteText)) {
@@ -108,7 +162,7 @@ function buildFieldComment(field: SchemaDefinition[string], mode: 'json' | 'type
     }
   }
 
-  if (isArrayField(field) && !/min|max/.test(noteText)) {
+  if ((isArrayField(field) || isPrimitiveArrayField(field)) && !/min|max/.test(noteText)) {
     const constraints: string[] = [];
     if (field.options.minItems !== undefined) constraints.push(`min ${field.options.minItems} item${field.options.minItems === 1 ? '' : 's'}`);
     if (field.options.maxItems !== undefined) constraints.push(`max ${field.options.maxItems} items`);
@@ -117,6 +171,45 @@ function buildFieldComment(field: SchemaDefinition[string], mode: 'json' | 'type
     }
   }
 
+  if (isDurationField(field)) {
+    const range: string[] = [];
+    if (field.options.min) range.push(`min ${field.options.min}`);
+    if (field.options.max) range.push(`max ${field.options.max}`);
+    segments.push(['ISO 8601 duration, e.g. PT45M for 45 minutes', ...range].join(', '));
+  }
+
+  if (isDateRangeField(field)) {
+    segments.push('start and end inclusive, start <= end');
+  }
+
+  if (isCitationField(field)) {
+    segments.push(
+      field.options.requireOffsets
+        ? 'exact quote copied from the source text, with its character offsets'
+        : 'exact quote copied from the source text, character offsets optional'
+    );
+  }
+
+  if (isMoneyField(field)) {
+    const { currencies, locale } = field.options;
+    if (!currencies) segments.push('currency as ISO 4217 code');
+    segments.push(`amount as a plain number, e.g. ${formatMoney(12000, currencies?.[0] ?? 'USD', locale)} → 12000`);
+  }
+
+  if (isQuantityField(field)) {
+    const { units, locale } = field.options;
+    const example = units ? formatQuantity(1500.5, units[0], locale) : new Intl.NumberFormat(locale).format(1500.5);
+    segments.push(`value as a plain number, e.g. ${example} → 1500.5`);
+  }
+
+  if (isTextField(field) && field.options.format) {
+    segments.push(textFormats[field.options.format].hint);
+  }
+
+  if (isRecordField(field) && field.options.keyPattern) {
+    segments.push(`keys match ${field.options.keyPattern}`);
+  }
+
   if ((isMarkdownField(field) || isTextField(field)) && !/max\s+\d+/.test(noteText)) {
     const lengths: string[] = [];
     if ('minLength' in field.options && field.options.minLength !== undefined) {
@@ -130,6 +223,14 @@ function buildFieldComment(field: SchemaDefinition[string], mode: 'json' | 'type
     }
   }
 
+  if (isMarkdownField(field)) {
+    const rules = describeMarkdownRules(field.options);
+    if (rules) segments.push(rules);
+    segments.push(...describeMarkdownStructure(field.options));
+    const mentions = describeMarkdownMentions(field.options);
+    if (mentions) segments.push(mentions);
+  }
+
   const uniqueSegments = segments.filter(Boolean).reduce<string[]>((acc, segment) => {
     if (!acc.includes(segment)) acc.push(segment);
     return acc;
@@ -138,7 +239,91 @@ function buildFieldComment(field: SchemaDefinition[string], mode: 'json' | 'type
   return uniqueSegments.join(', ').trim();
 }
 
-function renderTypeScriptValueLines(field: SchemaDefinition[string], indent: number): string[] {
+const DEFAULT_LAZY_DEPTH = 2;
+
+// State for rendering a single prompt, passed down through every render function.
+interface PromptRenderContext {
+  // Recursive definitions are expanded `maxDepth` levels deep and then summarised, so the
+  // current expansion depth is tracked per lazy field.
+  lazyExpansions: Map<AnyFieldDefinition, number>;
+  // Named definitions are declared once as `type Name = { ... }` ahead of the TypeScript
+  // structure and referenced by name wherever they are used.
+  declaredTypes: Map<SchemaDefinition, { name: string; lines: string[] }>;
+}
+
+function createRenderContext(): PromptRenderContext {
+  return { lazyExpansions: new Map(), declaredTypes: new Map() };
+}
+
+function expandLazy(
+  field: LazyFieldDefinition<unknown, boolean>,
+  ctx: PromptRenderContext,
+  render: (target: AnyFieldDefinition) => string[],
+  summarise: (target: AnyFieldDefinition) => string
+): string[] {
+  const depth = ctx.lazyExpansions.get(field) ?? 0;
+  const target = field.resolve();
+  if (depth >= (field.options.maxDepth ?? DEFAULT_LAZY_DEPTH)) {
+    return [summarise(resolveLazy(target))];
+  }
+
+  ctx.lazyExpansions.set(field, depth + 1);
+  const lines = render(target);
+  ctx.lazyExpansions.set(field, depth);
+  return lines;
+}
+
+function declareType(definition: SchemaDefinition, baseName: string, ctx: PromptRenderContext): string {
+  const declared = ctx.declaredTypes.get(definition);
+  if (declared) return declared.name;
+
+  const name = uniqueName(baseName, [...ctx.declaredTypes.values()].map((entry) => entry.name));
+  const entry = { name, lines: [] as string[] };
+  ctx.declaredTypes.set(definition, entry);
+  entry.lines = renderTypeScriptObjectLines(definition, 0, ctx);
+  return name;
+}
+
+function wrapConfidenceLines(valueLines: string[], indent: number, confidence: string): string[] {
+  const [firstLine, ...restLines] = valueLines;
+  if (restLines.length === 0) {
+    return [`{ "value": ${firstLine}, "confidence": ${confidence} }`];
+  }
+  const entryIndent = ' '.repeat(indent + 2);
+  const lastLine = restLines.pop()!;
+  return [
+    '{',
+    `${entryIndent}"value": ${firstLine.trimStart()}`,
+    ...restLines,
+    `${lastLine},`,
+    `${entryIndent}"confidence": ${confidence}`,
+    `${' '.repeat(indent)}}`
+  ];
+}
+
+function joinUnionLines(groups: string[][]): string[] {
+  const lines: string[] = [];
+  groups.forEach((group) => {
+    if (lines.length === 0) {
+      lines.push(...group);
+      return;
+    }
+    const [first, ...rest] = group;
+    lines[lines.length - 1] = `${lines[lines.length - 1]} | ${first.trimStart()}`;
+    lines.push(...rest);
+  });
+  return lines;
+}
+
+function renderTypeScriptValueLines(field: SchemaDefinition[string], indent: number, ctx: PromptRenderContext): string[] {
+  const lines = renderTypeScriptBaseValueLines(field, indent, ctx);
+  if (field.nullable) {
+    lines[lines.length - 1] = `${lines[lines.length - 1]} | null`;
+  }
+  return lines;
+}
+
+function renderTypeScriptBaseValueLines(field: SchemaDefinition[string], indent: number, ctx: PromptRenderContext): string[] {
   const indentSpace = ' '.repeat(indent);
 
   if (isTextField(field) || isMarkdownField(field) || isEntityField(field)) {
@@ -157,20 +342,93 @@ function renderTypeScriptValueLines(field: SchemaDefinition[string], indent: num
     return ['string'];
   }
 
+  if (isDurationField(field)) {
+    return ['string'];
+  }
+
+  if (isDateRangeField(field)) {
+    return ['{ "start": string, "end": string }'];
+  }
+
   if (isEnumField(field)) {
     return [field.values.map((value) => `"${value}"`).join(' | ')];
   }
 
+  if (isLiteralField(field)) {
+    return [JSON.stringify(field.value)];
+  }
+
+  if (isMoneyField(field) || isQuantityField(field)) {
+    const [amountKey, labelKey] = isMoneyField(field) ? ['amount', 'currency'] : ['value', 'unit'];
+    const labels = isMoneyField(field) ? field.options.currencies : field.options.units;
+    const labelType = labels ? labels.map((label) => `"${label}"`).join(' | ') : 'string';
+    return [`{ "${amountKey}": number, "${labelKey}": ${labelType} }`];
+  }
+
+  if (isCitationField(field)) {
+    const offsetMark = field.options.requireOffsets ? '' : '?';
+    return [`{ "quote": string, "start"${offsetMark}: number, "end"${offsetMark}: number }`];
+  }
+
   if (isArrayField(field)) {
+    const itemName = getDefinitionName(field.itemDefinition);
+    if (itemName) {
+      return [`${declareType(field.itemDefinition, itemName, ctx)}[]`];
+    }
     const lines = ['['];
-    const itemLines = renderTypeScriptObjectLines(field.itemDefinition, indent + 2);
+    const itemLines = renderTypeScriptObjectLines(field.itemDefinition, indent + 2, ctx);
     lines.push(...itemLines);
     lines.push(`${indentSpace}]`);
     return lines;
   }
 
+  if (isPrimitiveArrayField(field)) {
+    const itemLines = renderTypeScriptValueLines(field.item, indent + 2, ctx);
+    if (itemLines.length === 1) {
+      const [itemType] = itemLines;
+      return [itemType.includes(' | ') ? `(${itemType})[]` : `${itemType}[]`];
+    }
+    const [firstItemLine, ...restItemLines] = itemLines;
+    return ['[', `${' '.repeat(indent + 2)}${firstItemLine.trimStart()}`, ...restItemLines, `${indentSpace}]`];
+  }
+
   if (isObjectField(field)) {
-    return renderTypeScriptObjectLines(field.shape, indent);
+    const name = getDefinitionName(field.shape);
+    return name ? [declareType(field.shape, name, ctx)] : renderTypeScriptObjectLines(field.shape, indent, ctx);
+  }
+
+  if (isRecordField(field)) {
+    const keyType = field.options.keys ? field.options.keys.map((key) => `"${key}"`).join(' | ') : 'string';
+    const valueLines = renderTypeScriptValueLines(field.value, indent, ctx);
+    const [firstValueLine, ...restValueLines] = valueLines;
+    if (restValueLines.length === 0) {
+      return [`Record<${keyType}, ${firstValueLine.trimStart()}>`];
+    }
+    const lastValueLine = restValueLines.pop()!;
+    return [`Record<${keyType}, ${firstValueLine.trimStart()}`, ...restValueLines, `${lastValueLine}>`];
+  }
+
+  if (isUnionField(field)) {
+    return joinUnionLines(field.members.map((member) => renderTypeScriptValueLines(member, indent, ctx)));
+  }
+
+  if (isDiscriminatedUnionField(field)) {
+    return joinUnionLines(
+      Object.values(field.variants).map((variant) => renderTypeScriptObjectLines(variant, indent, ctx))
+    );
+  }
+
+  if (isConfidenceField(field)) {
+    return wrapConfidenceLines(renderTypeScriptValueLines(field.inner, indent + 2, ctx), indent, 'number');
+  }
+
+  if (isLazyField(field)) {
+    return expandLazy(
+      field,
+      ctx,
+      (target) => renderTypeScriptValueLines(target, indent, ctx),
+      (target) => (isObjectField(target) ? '{ /* same shape as above */ }' : 'unknown /* same shape as above */')
+    );
   }
 
   return ['null'];
@@ -180,11 +438,12 @@ function renderTypeScriptEntryLines(
   key: string,
   field: SchemaDefinition[string],
   indent: number,
-  isLast: boolean
+  isLast: boolean,
+  ctx: PromptRenderContext
 ): string[] {
   const indentSpace = ' '.repeat(indent);
   const optionalMark = field.optional ? '?' : '';
-  const valueLines = renderTypeScriptValueLines(field, indent + 2);
+  const valueLines = renderTypeScriptValueLines(field, indent, ctx);
   const comment = buildFieldComment(field, 'typescript');
 
   if (valueLines.length === 1) {
@@ -193,7 +452,7 @@ function renderTypeScriptEntryLines(
   }
 
   const [firstLine, ...rest] = valueLines;
-  const lines: string[] = [`${indentSpace}"${key}"${optionalMark}: ${firstLine}`];
+  const lines: string[] = [`${indentSpace}"${key}"${optionalMark}: ${firstLine.trimStart()}`];
 
   if (rest.length > 0) {
     const middle = rest.slice(0, -1);
@@ -216,7 +475,7 @@ function renderTypeScriptEntryLines(
   return lines;
 }
 
-function renderTypeScriptObjectLines(definition: SchemaDefinition, indent: number): string[] {
+function renderTypeScriptObjectLines(definition: SchemaDefinition, indent: number, ctx: PromptRenderContext): string[] {
   const indentSpace = ' '.repeat(indent);
   const entries = Object.entries(definition) as Array<[
     string,
@@ -230,7 +489,7 @@ function renderTypeScriptObjectLines(definition: SchemaDefinition, indent: numbe
   const lines: string[] = [`${indentSpace}{`];
 
   entries.forEach(([key, field], index) => {
-    const entryLines = renderTypeScriptEntryLines(key, field, indent + 2, index === entries.length - 1);
+    const entryLines = renderTypeScriptEntryLines(key, field, indent + 2, index === entries.length - 1, ctx);
     lines.push(...entryLines);
   });
 
@@ -239,10 +498,15 @@ function renderTypeScriptObjectLines(definition: SchemaDefinition, indent: numbe
 }
 
 function renderTypeScriptStructure(definition: SchemaDefinition): string {
-  return renderTypeScriptObjectLines(definition, 0).join('\n');
+  const ctx = createRenderContext();
+  const body = renderTypeScriptObjectLines(definition, 0, ctx).join('\n');
+  const declarations = [...ctx.declaredTypes.values()].map(
+    ({ name, lines }) => `type ${name} = ${lines.join('\n')};`
+  );
+  return [...declarations, body].join('\n\n');
 }
 
-function renderJsonValueLines(field: SchemaDefinition[string], indent: number): string[] {
+function renderJsonValueLines(field: SchemaDefinition[string], indent: number, ctx: PromptRenderContext): string[] {
   const indentSpace = ' '.repeat(indent);
 
   if (isTextField(field) || isMarkdownField(field) || isEntityField(field)) {
@@ -262,20 +526,89 @@ function renderJsonValueLines(field: SchemaDefinition[string], indent: number):
     return [`${indentSpace}"${placeholder}"`];
   }
 
+  if (isDurationField(field)) {
+    return [`${indentSpace}"<ISO-8601 duration>"`];
+  }
+
+  if (isDateRangeField(field)) {
+    const placeholder = field.options.format === 'date-time' ? '<ISO-8601 date-time>' : '<YYYY-MM-DD>';
+    return [`${indentSpace}{ "start": "${placeholder}", "end": "${placeholder}" }`];
+  }
+
   if (isEnumField(field)) {
     return [`${indentSpace}"<${field.values.join(' | ')}>"`];
   }
 
+  if (isLiteralField(field)) {
+    return [`${indentSpace}${JSON.stringify(field.value)}`];
+  }
+
+  if (isMoneyField(field) || isQuantityField(field)) {
+    const [amountKey, labelKey] = isMoneyField(field) ? ['amount', 'currency'] : ['value', 'unit'];
+    const labels = isMoneyField(field) ? field.options.currencies : field.options.units;
+    const placeholder = labels ? `<${labels.join(' | ')}>` : `<${labelKey}>`;
+    return [`${indentSpace}{ "${amountKey}": 0, "${labelKey}": "${placeholder}" }`];
+  }
+
+  if (isCitationField(field)) {
+    const offsetMark = field.options.requireOffsets ? '' : '?';
+    return [`${indentSpace}{ "quote": "<exact quote>", "start"${offsetMark}: 0, "end"${offsetMark}: 0 }`];
+  }
+
   if (isArrayField(field)) {
     const lines = [`${indentSpace}[`];
-    const itemLines = renderJsonObjectLines(field.itemDefinition, indent + 2);
+    const itemLines = renderJsonObjectLines(field.itemDefinition, indent + 2, ctx);
     lines.push(...itemLines);
     lines.push(`${indentSpace}]`);
     return lines;
   }
 
+  if (isPrimitiveArrayField(field)) {
+    const itemLines = renderJsonValueLines(field.item, indent + 2, ctx);
+    if (itemLines.length === 1) {
+      return [`${indentSpace}[${itemLines[0].trim()}]`];
+    }
+    const [firstItemLine, ...restItemLines] = itemLines;
+    return [`${indentSpace}[`, `${' '.repeat(indent + 2)}${firstItemLine.trimStart()}`, ...restItemLines, `${indentSpace}]`];
+  }
+
   if (isObjectField(field)) {
-    return renderJsonObjectLines(field.shape, indent);
+    return renderJsonObjectLines(field.shape, indent, ctx);
+  }
+
+  if (isRecordField(field)) {
+    const keyLabel = field.options.keys ? `<${field.options.keys.join(' | ')}>` : '<key>';
+    const [firstValueLine, ...restValueLines] = renderJsonValueLines(field.value, indent + 2, ctx);
+    return [
+      `${indentSpace}{`,
+      `${' '.repeat(indent + 2)}"${keyLabel}": ${firstValueLine.trimStart()}`,
+      ...restValueLines,
+      `${indentSpace}}`
+    ];
+  }
+
+  if (isUnionField(field)) {
+    return joinUnionLines(field.members.map((member) => renderJsonValueLines(member, indent, ctx)));
+  }
+
+  if (isDiscriminatedUnionField(field)) {
+    return joinUnionLines(Object.values(field.variants).map((variant) => renderJsonObjectLines(variant, indent, ctx)));
+  }
+
+  if (isConfidenceField(field)) {
+    const [firstLine, ...restLines] = renderJsonValueLines(field.inner, indent + 2, ctx);
+    return wrapConfidenceLines([firstLine.trimStart(), ...restLines], indent, '0.8').map((line, index) =>
+      index === 0 ? `${indentSpace}${line}` : line
+    );
+  }
+
+  if (isLazyField(field)) {
+    return expandLazy(
+      field,
+      ctx,
+      (target) => renderJsonValueLines(target, indent, ctx),
+      (target) => `${indentSpace}${isObjectField(target) ? '{ /* same shape as above */ }' : '"<same shape as above>"'}`
+    );
   }
 
   return [`${indentSpace}null`];
@@ -285,10 +618,11 @@ function renderJsonEntryLines(
   key: string,
   field: SchemaDefinition[string],
   indent: number,
-  isLast: boolean
+  isLast: boolean,
+  ctx: PromptRenderContext
 ): string[] {
   const indentSpace = ' '.repeat(indent);
-  const valueLines = renderJsonValueLines(field, indent + 2);
+  const valueLines = renderJsonValueLines(field, indent, ctx);
   const comment = buildFieldComment(field, 'json');
 
   if (valueLines.length === 1) {
@@ -309,7 +643,7 @@ function renderJsonEntryLines(
   return lines;
 }
 
-function renderJsonObjectLines(definition: SchemaDefinition, indent: number): string[] {
+function renderJsonObjectLines(definition: SchemaDefinition, indent: number, ctx: PromptRenderContext): string[] {
   const indentSpace = ' '.repeat(indent);
   const entries = Object.entries(definition) as Array<[
     string,
@@ -323,7 +657,7 @@ function renderJsonObjectLines(definition: SchemaDefinition, indent: number): st
   const lines: string[] = [`${indentSpace}{`];
 
   entries.forEach(([key, field], index) => {
-    const entryLines = renderJsonEntryLines(key, field, indent + 2, index === entries.length - 1);
+    const entryLines = renderJsonEntryLines(key, field, indent + 2, index === entries.length - 1, ctx);
     lines.push(...entryLines);
   });
 
@@ -332,7 +666,22 @@ function renderJsonObjectLines(definition: SchemaDefinition, indent: number): st
 }
 
 function renderJsonStructure(definition: SchemaDefinition): string {
-  return renderJsonObjectLines(definition, 0).join('\n');
+  return renderJsonObjectLines(definition, 0, createRenderContext()).join('\n');
+}
+
+function jsonParseFailure(input: string, error: Error): SchemaValidationResult<Record<string, unknown>> {
+  return {
+    success: false,
+    issues: [
+      {
+        path: [],
+        message: `Failed to parse JSON input: ${error.message}`,
+        code: 'invalid_format',
+        expected: 'json_object',
+        received: input
+      }
+    ]
+  };
 }
 
 function normalizeInput(input: unknown): SchemaValidationResult<Record<string, unknown>> {
@@ -341,18 +690,7 @@ function normalizeInput(input: unknown): SchemaValidationResult<Record<string, u
       const parsed = JSON.parse(input) as Record<string, unknown>;
       return { success: true, data: parsed };
     } catch (error) {
-      return {
-        success: false,
-        issues: [
-          {
-            path: [],
-            message: `Failed to parse JSON input: ${(error as Error).message}`,
-            code: 'invalid_format',
-            expected: 'json_object',
-            received: input
-          }
-        ]
-      };
+      return jsonParseFailure(input, error as Error);
     }
   }
 
@@ -376,7 +714,7 @@ function normalizeInput(input: unknown): SchemaValidationResult<Record<string, u
 
 export function defineSchema<const Definition extends SchemaDefinition>(
   definition: Definition,
-  options?: SchemaConfig
+  options?: SchemaConfig<Definition>
 ): Schema<Definition> {
   const normalized = normalizeOptions(options);
 
@@ -384,25 +722,62 @@ export function defineSchema<const Definition extends SchemaDefinition>(
     definition,
     options: normalized,
 
-    parse(input: unknown) {
-      const result = this.safeParse(input);
+    parse(input: unknown, parseOptions?: ParseOptions) {
+      const result = this.safeParse(input, parseOptions);
       if (!result.success) {
         throw new SchemaError('Failed to parse schema data', result.issues);
       }
       return result.data;
     },
 
-    safeParse(input: unknown) {
+    safeParse(input: unknown, parseOptions?: ParseOptions) {
       const normalizedInput = normalizeInput(input);
       if (!normalizedInput.success) {
         return normalizedInput as SchemaValidationResult<SchemaOutput<Definition>>;
       }
 
-      return parseRoot(definition, normalizedInput.data, normalized);
+      return parseRoot(definition, normalizedInput.data, normalized, parseOptions);
     },
 
-    validate(input: unknown) {
-      return this.safeParse(input);
+    async parseAsync(input: unknown, parseOptions?: ParseOptions) {
+      const result = await this.safeParseAsync(input, parseOptions);
+      if (!result.success) {
+        throw new SchemaError('Failed to parse schema data', result.issues);
+      }
+      return result.data;
+    },
+
+    async safeParseAsync(input: unknown, parseOptions?: ParseOptions) {
+      const normalizedInput = normalizeInput(input);
+      if (!normalizedInput.success) {
+        return normalizedInput as SchemaValidationResult<SchemaOutput<Definition>>;
+      }
+
+      return parseRootAsync(definition, normalizedInput.data, normalized, parseOptions);
+    },
+
+    validate(input: unknown, parseOptions?: ParseOptions) {
+      return this.safeParse(input, parseOptions);
+    },
+
+    parseWithRepair(input: unknown, repairOptions?: RepairOptions & ParseOptions) {
+      if (typeof input !== 'string') {
+        return { ...this.safeParse(input, repairOptions), repairs: [] };
+      }
+
+      const repaired = repairJson(input, repairOptions);
+      if (!repaired.success) {
+        return { ...jsonParseFailure(input, repaired.error), repairs: repaired.repairs } as RepairParseResult<
+          SchemaOutput<Definition>
+        >;
+      }
+
+      return { ...this.safeParse(repaired.value, repairOptions), repairs: repaired.repairs };
+    },
+
+    parsePartial(chunkOrBuffer: string | readonly string[]) {
+      const buffer = typeof chunkOrBuffer === 'string' ? chunkOrBuffer : chunkOrBuffer.join('');
+      return parsePartialDefinition(definition, buffer, normalized);
     },
 
     toPrompt(promptOptions: SchemaPromptOptions = {}) {
@@ -458,14 +833,18 @@ export function defineSchema<const Definition extends SchemaDefinition>(
       return searchSchemaData(this, data, query, searchOptions);
     },
 
-    getEntities(data, type) {
-      return extractEntities(this, data, type);
+    getEntities(data, type, registry) {
+      return extractEntities(this, data, type, registry);
     },
 
     getMarkdownFields(data) {
       return collectMarkdownFields(this, data);
     },
 
+    serialize(data, serializeOptions) {
+      return serializeSchemaData(this, data, serializeOptions);
+    },
+
     getDefinition() {
       return definition;
     }
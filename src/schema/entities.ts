@@ -0,0 +1,144 @@
+import {
+  EntityLookupFailure,
+  type EntityRegistry,
+  type EntityResolution,
+  type EntityResolutionState,
+  type KnownEntity
+} from './types';
+import { isPromiseLike } from './refinements';
+
+type Lookup = KnownEntity | null | PromiseLike<KnownEntity | null>;
+
+// Entities returned by resolvers are remembered per registry, so `getEntities` can return the
+// full record for a canonical ID without calling the resolver again.
+const resolvedEntities = new WeakMap<EntityRegistry, Map<string, KnownEntity>>();
+
+function entityKey(type: string, value: string): string {
+  return `${type}:${value}`;
+}
+
+function normalizeName(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function registryCovers(registry: EntityRegistry, type: string): boolean {
+  return Boolean(registry.resolvers?.[type]) || (registry.entities ?? []).some((entity) => entity.type === type);
+}
+
+function findKnownEntity(registry: EntityRegistry, type: string, value: string): KnownEntity | undefined {
+  const candidates = (registry.entities ?? []).filter((entity) => entity.type === type);
+  const exact = candidates.find((entity) => entity.id === value);
+  if (exact) return exact;
+
+  const normalized = normalizeName(value);
+  const named = candidates.find((entity) =>
+    [entity.id, entity.name, ...(entity.aliases ?? [])].some(
+      (candidate) => candidate !== undefined && normalizeName(candidate) === normalized
+    )
+  );
+  return named ?? resolvedEntities.get(registry)?.get(entityKey(type, value));
+}
+
+function toEntity(registry: EntityRegistry, type: string, resolution: EntityResolution): KnownEntity | null {
+  if (resolution === null || resolution === undefined) return null;
+
+  const entity =
+    typeof resolution === 'string' ? findKnownEntity(registry, type, resolution) ?? { id: resolution, type } : resolution;
+  const remembered = resolvedEntities.get(registry) ?? new Map<string, KnownEntity>();
+  remembered.set(entityKey(type, entity.id), entity);
+  resolvedEntities.set(registry, remembered);
+  return entity;
+}
+
+function lookup(registry: EntityRegistry, type: string, value: string): Lookup {
+  const known = findKnownEntity(registry, type, value);
+  if (known) return known;
+
+  const resolver = registry.resolvers?.[type];
+  if (!resolver) return null;
+
+  const resolution = resolver(value, type);
+  return isPromiseLike<EntityResolution>(resolution)
+    ? Promise.resolve(resolution).then((resolved) => toEntity(registry, type, resolved))
+    : toEntity(registry, type, resolution);
+}
+
+export function createEntityState(
+  registries: Array<EntityRegistry | undefined>,
+  async: boolean
+): EntityResolutionState | undefined {
+  const defined = registries.filter((registry): registry is EntityRegistry => registry !== undefined);
+  if (defined.length === 0) return undefined;
+  return { registries: defined, cache: new Map(), lookups: async ? [] : undefined };
+}
+
+// Returns the matching entity, `null` when no registry can resolve the value, a failure when
+// the lookup could not finish, or `undefined` when no registry covers the type or an async
+// lookup is still in flight.
+export function resolveEntity(
+  state: EntityResolutionState,
+  type: string,
+  value: string
+): KnownEntity | EntityLookupFailure | null | undefined {
+  const registries = state.registries.filter((registry) => registryCovers(registry, type));
+  if (registries.length === 0) return undefined;
+
+  const key = entityKey(type, value);
+  if (state.cache.has(key)) return state.cache.get(key);
+
+  const attempt = (index: number): Lookup => {
+    if (index >= registries.length) return null;
+    const result = lookup(registries[index], type, value);
+    if (isPromiseLike<KnownEntity | null>(result)) {
+      return Promise.resolve(result).then((entity) => entity ?? attempt(index + 1));
+    }
+    return result ?? attempt(index + 1);
+  };
+
+  const fail = (error: unknown) => {
+    const reason = error instanceof Error ? error.message : String(error);
+    const failure = new EntityLookupFailure(`Could not resolve ${type} "${value}": ${reason}`);
+    state.cache.set(key, failure);
+    return failure;
+  };
+
+  let result: Lookup;
+  try {
+    result = attempt(0);
+  } catch (error) {
+    return fail(error);
+  }
+
+  if (isPromiseLike<KnownEntity | null>(result)) {
+    if (!state.lookups) {
+      // Synchronous parsing can't wait for the lookup, so the promise is abandoned with its
+      // rejection handled and the value is reported as unresolved.
+      Promise.resolve(result).then(undefined, () => undefined);
+      return new EntityLookupFailure(
+        `Async entity resolver for ${type} cannot run during synchronous parsing; use parseAsync() or safeParseAsync()`
+      );
+    }
+    state.lookups.push(
+      Promise.resolve(result).then(
+        (entity) => {
+          state.cache.set(key, entity);
+        },
+        (error: unknown) => {
+          fail(error);
+        }
+      )
+    );
+    return undefined;
+  }
+
+  state.cache.set(key, result);
+  return result;
+}
+
+export function findEntity(registries: EntityRegistry[], type: string, id: string): KnownEntity | undefined {
+  for (const registry of registries) {
+    const entity = findKnownEntity(registry, type, id);
+    if (entity) return entity;
+  }
+  return undefined;
+}
@@ -3,6 +3,7 @@ import {
   type ArrayFieldDefinition,
   type ArrayFieldOptions,
   type JsonSchema,
+  type LazyFieldDefinition,
   type ObjectFieldDefinition,
   type OpenAIToolOptions,
   type SchemaDefinition,
@@ -10,15 +11,28 @@ import {
 } from './types';
 import {
   isArrayField,
+  isPrimitiveArrayField,
+  isQuantityField,
+  isRecordField,
   isBooleanField,
+  isCitationField,
+  isConfidenceField,
   isDateField,
+  isDateRangeField,
+  isDurationField,
+  isDiscriminatedUnionField,
   isEntityField,
   isEnumField,
+  isLazyField,
+  isLiteralField,
   isMarkdownField,
+  isMoneyField,
   isNumberField,
   isObjectField,
-  isTextField
+  isTextField,
+  isUnionField
 } from './typeGuards';
+import { describeEnumLabels, getDefinitionName, textFormats, uniqueName } from './internal';
 
 function applyDescription(schema: JsonSchema, description?: string): JsonSchema {
   if (description) {
@@ -27,14 +41,75 @@ function applyDescription(schema: JsonSchema, description?: string): JsonSchema
   return schema;
 }
 
-function fieldToJsonSchema(field: SchemaDefinition[string]): JsonSchema {
+// Lazy fields and named definitions are exported once under `$defs` and referenced
+// everywhere else, which is also what lets recursive definitions terminate.
+interface JsonSchemaRefs {
+  names: Map<object, string>;
+  defs: Record<string, JsonSchema>;
+}
+
+function defineRef(refs: JsonSchemaRefs, key: object, baseName: string, build: () => JsonSchema): JsonSchema {
+  let name = refs.names.get(key);
+  if (!name) {
+    name = uniqueName(baseName, refs.names.values());
+    refs.names.set(key, name);
+    refs.defs[name] = build();
+  }
+  return { $ref: `#/$defs/${name}` };
+}
+
+function shapeToJsonSchema(definition: SchemaDefinition, refs: JsonSchemaRefs): JsonSchema {
+  const name = getDefinitionName(definition);
+  const build = () => objectToJsonSchema(definition, refs, { strict: true });
+  return name ? defineRef(refs, definition, name, build) : build();
+}
+
+function lazyToJsonSchema(field: LazyFieldDefinition<unknown, boolean>, refs: JsonSchemaRefs): JsonSchema {
+  const target = field.resolve();
+  if (isObjectField(target) && getDefinitionName(target.shape)) {
+    return fieldToJsonSchema(target, refs);
+  }
+  return defineRef(refs, field, field.options.name ?? 'Node', () => fieldToJsonSchema(target, refs));
+}
+
+function applyNullable(schema: JsonSchema): JsonSchema {
+  if (schema.const !== undefined || schema.$ref !== undefined) {
+    const { description, ...literalSchema } = schema;
+    return applyDescription({ anyOf: [literalSchema, { type: 'null' }] }, description);
+  }
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants) {
+    if (!variants.some((variant) => variant.type === 'null')) {
+      variants.push({ type: 'null' });
+    }
+    return schema;
+  }
+
+  if (schema.type === undefined) return schema;
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  schema.type = types.includes('null') ? types : [...types, 'null'];
+  if (schema.enum && !schema.enum.includes(null)) {
+    schema.enum = [...schema.enum, null];
+  }
+  return schema;
+}
+
+function fieldToJsonSchema(field: SchemaDefinition[string], refs: JsonSchemaRefs): JsonSchema {
+  const schema = baseFieldToJsonSchema(field, refs);
+  return field.nullable ? applyNullable(schema) : schema;
+}
+
+function baseFieldToJsonSchema(field: SchemaDefinition[string], refs: JsonSchemaRefs): JsonSchema {
   if (isTextField(field)) {
+    const preset = field.options.format ? textFormats[field.options.format] : undefined;
     return applyDescription(
       {
         type: 'string',
         minLength: field.options.minLength,
         maxLength: field.options.maxLength,
-        pattern: field.options.pattern?.source
+        pattern: (field.options.pattern ?? preset?.pattern)?.source,
+        format: preset?.jsonSchemaFormat
       },
       field.description
     );
@@ -81,7 +156,41 @@ function fieldToJsonSchema(field: SchemaDefinition[string]): JsonSchema {
     );
   }
 
+  if (isDurationField(field)) {
+    return applyDescription(
+      {
+        type: 'string',
+        format: 'duration'
+      },
+      field.description
+    );
+  }
+
+  if (isDateRangeField(field)) {
+    const format = field.options.format ?? 'date';
+    return applyDescription(
+      {
+        type: 'object',
+        properties: {
+          start: { type: 'string', format },
+          end: { type: 'string', format, description: 'Inclusive, not before start' }
+        },
+        required: ['start', 'end'],
+        additionalProperties: false
+      },
+      field.description
+    );
+  }
+
   if (isEnumField(field)) {
+    if (describeEnumLabels(field.values, field.options)) {
+      return applyDescription(
+        {
+          oneOf: field.values.map((value) => applyDescription({ const: value }, field.options.labels?.[value]))
+        },
+        field.description
+      );
+    }
     return applyDescription(
       {
         type: 'string',
@@ -100,8 +209,58 @@ function fieldToJsonSchema(field: SchemaDefinition[string]): JsonSchema {
     );
   }
 
-  if (isArrayField(field)) {
-    const itemSchema = definitionToJsonSchema(field.itemDefinition, { strict: true });
+  if (isLiteralField(field)) {
+    return applyDescription(
+      {
+        type: typeof field.value,
+        const: field.value
+      },
+      field.description
+    );
+  }
+
+  if (isCitationField(field)) {
+    return applyDescription(
+      {
+        type: 'object',
+        properties: {
+          quote: { type: 'string', description: 'Exact quote from the source text' },
+          start: { type: 'integer', minimum: 0, description: 'Character offset where the quote starts' },
+          end: { type: 'integer', minimum: 0, description: 'Character offset where the quote ends' }
+        },
+        required: field.options.requireOffsets ? ['quote', 'start', 'end'] : ['quote'],
+        additionalProperties: false
+      },
+      field.description
+    );
+  }
+
+  if (isMoneyField(field) || isQuantityField(field)) {
+    const [amountKey, labelKey] = isMoneyField(field) ? ['amount', 'currency'] : ['value', 'unit'];
+    const labels = isMoneyField(field) ? field.options.currencies : field.options.units;
+    const labelSchema: JsonSchema = labels
+      ? { type: 'string', enum: [...labels] }
+      : isMoneyField(field)
+        ? { type: 'string', pattern: '^[A-Z]{3}$', description: 'ISO 4217 currency code' }
+        : { type: 'string' };
+    return applyDescription(
+      {
+        type: 'object',
+        properties: {
+          [amountKey]: { type: 'number', minimum: field.options.min, maximum: field.options.max },
+          [labelKey]: labelSchema
+        },
+        required: [amountKey, labelKey],
+        additionalProperties: false
+      },
+      field.description
+    );
+  }
+
+  if (isArrayField(field) || isPrimitiveArrayField(field)) {
+    const itemSchema = isPrimitiveArrayField(field)
+      ? fieldToJsonSchema(field.item, refs)
+      : shapeToJsonSchema(field.itemDefinition, refs);
     const arrayOptions = field.options as ArrayFieldOptions;
     return applyDescription(
       {
@@ -115,7 +274,72 @@ function fieldToJsonSchema(field: SchemaDefinition[string]): JsonSchema {
   }
 
   if (isObjectField(field)) {
-    return applyDescription(definitionToJsonSchema(field.shape, { strict: true }), field.description);
+    return applyDescription(shapeToJsonSchema(field.shape, refs), field.description);
+  }
+
+  if (isRecordField(field)) {
+    const valueSchema = fieldToJsonSchema(field.value, refs);
+    const { keys, keyPattern } = field.options;
+    if (keys) {
+      return applyDescription(
+        {
+          type: 'object',
+          properties: Object.fromEntries(keys.map((key) => [key, valueSchema])),
+          additionalProperties: false
+        },
+        field.description
+      );
+    }
+    if (keyPattern) {
+      return applyDescription(
+        {
+          type: 'object',
+          patternProperties: { [keyPattern.source]: valueSchema },
+          additionalProperties: false
+        },
+        field.description
+      );
+    }
+    return applyDescription({ type: 'object', additionalProperties: valueSchema }, field.description);
+  }
+
+  if (isUnionField(field)) {
+    return applyDescription(
+      {
+        anyOf: field.members.map((member) => fieldToJsonSchema(member, refs))
+      },
+      field.description
+    );
+  }
+
+  if (isDiscriminatedUnionField(field)) {
+    return applyDescription(
+      {
+        oneOf: Object.values(field.variants).map((variant) => objectToJsonSchema(variant, refs, { strict: true }))
+      },
+      field.description
+    );
+  }
+
+  if (isLazyField(field)) {
+    return applyDescription(lazyToJsonSchema(field, refs), field.description);
+  }
+
+  if (isConfidenceField(field)) {
+    return {
+      type: 'object',
+      properties: {
+        value: fieldToJsonSchema(field.inner, refs),
+        confidence: {
+          type: 'number',
+          minimum: 0,
+          maximum: 1,
+          description: 'How certain the value is, from 0 (guess) to 1 (stated explicitly)'
+        }
+      },
+      required: ['value', 'confidence'],
+      additionalProperties: false
+    };
   }
 
   return { type: 'string' };
@@ -126,15 +350,16 @@ export interface DefinitionToJsonOptions {
   strict?: boolean;
 }
 
-export function definitionToJsonSchema(
+function objectToJsonSchema(
   definition: SchemaDefinition,
-  options: DefinitionToJsonOptions = {}
+  refs: JsonSchemaRefs,
+  options: DefinitionToJsonOptions
 ): JsonSchema {
   const properties: Record<string, JsonSchema> = {};
   const required: string[] = [];
 
   for (const [key, field] of Object.entries(definition)) {
-    properties[key] = fieldToJsonSchema(field);
+    properties[key] = fieldToJsonSchema(field, refs);
     if (!field.optional) {
       required.push(key);
     }
@@ -157,6 +382,18 @@ export function definitionToJsonSchema(
   return schema;
 }
 
+export function definitionToJsonSchema(
+  definition: SchemaDefinition,
+  options: DefinitionToJsonOptions = {}
+): JsonSchema {
+  const refs: JsonSchemaRefs = { names: new Map(), defs: {} };
+  const schema = objectToJsonSchema(definition, refs, options);
+  if (refs.names.size > 0) {
+    schema.$defs = refs.defs;
+  }
+  return schema;
+}
+
 export function toOpenAIToolSchema(
   definition: SchemaDefinition,
   schemaOptions: Required<SchemaOptions>,
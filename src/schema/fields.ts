@@ -1,41 +1,131 @@
 import {
+  type AnyFieldDefinition,
   type ArrayFieldDefinition,
   type ArrayFieldOptions,
   type BooleanFieldDefinition,
   type BooleanFieldOptions,
+  type Citation,
+  type CitationFieldDefinition,
+  type CitationFieldOptions,
+  type ConfidenceFieldDefinition,
+  type CoercionRecord,
   type DateFieldDefinition,
   type DateFieldOptions,
+  type DateRange,
+  type DateRangeFieldDefinition,
+  type DateRangeFieldOptions,
+  type DeepPartial,
+  type DefaultValue,
+  type DiscriminatedUnionFieldDefinition,
+  type DiscriminatedUnionFieldOptions,
+  type DiscriminatedUnionOutput,
+  type DurationFieldDefinition,
+  type DurationFieldOptions,
   type EntityFieldDefinition,
   type EntityFieldOptions,
+  EntityLookupFailure,
   type EnumFieldDefinition,
   type EnumFieldOptions,
   type FieldDefinition,
+  type FieldOutput,
   type FieldParseResult,
+  type LazyFieldDefinition,
+  type LazyFieldOptions,
+  type LiteralFieldDefinition,
+  type LiteralFieldOptions,
+  type LiteralValue,
   type MarkdownFieldDefinition,
   type MarkdownFieldOptions,
+  type MoneyFieldDefinition,
+  type MoneyFieldOptions,
   type NumberFieldDefinition,
   type NumberFieldOptions,
   type ObjectFieldDefinition,
   type ObjectFieldOptions,
+  type ParseContext,
   type ParseIssue,
+  type PrimitiveArrayFieldDefinition,
+  type QuantityFieldDefinition,
+  type QuantityFieldOptions,
+  type RecordFieldDefinition,
+  type RecordFieldOptions,
   type SchemaDefinition,
   type SchemaOutput,
   type TextFieldDefinition,
-  type TextFieldOptions
+  type TextFieldOptions,
+  type UnionFieldDefinition,
+  type UnionFieldOptions
 } from './types';
-import { determineDate, determineNumberPrecision } from './internal';
-import { parseDefinition } from './validation';
-import { appendPath, issue, resolveOptional } from './utils';
-import type { DetermineOptional } from './utils';
+import {
+  coerceBoolean,
+  coerceEnumValue,
+  coerceNumber,
+  determineDate,
+  describeEnumLabels,
+  determineNumberPrecision,
+  durationToSeconds,
+  isIsoDuration,
+  locateQuote,
+  parseDateRangeString,
+  parseDurationString,
+  parseMoneyString,
+  parseQuantityString,
+  quoteMatches,
+  resolveLazy,
+  setDefinitionName,
+  textFormats
+} from './internal';
+import {
+  checkMarkdownStructure,
+  describeMarkdownMentions,
+  describeMarkdownRules,
+  describeMarkdownStructure,
+  findDisallowedMarkdown,
+  findMentions,
+  hasMarkdownRules,
+  hasMarkdownStructure,
+  markdownPosition,
+  parseMarkdown,
+  stripMarkdown,
+  type MarkdownNode
+} from './markdown';
+import { resolveEntity } from './entities';
+import { parseDefinition, parseFieldValue } from './validation';
+import {
+  isConfidenceField,
+  isDiscriminatedUnionField,
+  isFieldDefinition,
+  isObjectField,
+  isQuantityField,
+  isRecordField,
+  isUnionField
+} from './typeGuards';
+import {
+  appendPath,
+  describeRequirement,
+  issue,
+  recordCoercion,
+  resolveDefault,
+  resolveOptional,
+  shouldCoerce
+} from './utils';
+import type { DetermineOptional, WithNullable } from './utils';
 
-type TextFieldReturn<O extends TextFieldOptions> = TextFieldDefinition<DetermineOptional<O>>;
+type RecordKeys<O extends RecordFieldOptions> = O['keys'] extends readonly string[] ? O['keys'][number] : string;
+
+type TextFieldReturn<O extends TextFieldOptions> = WithNullable<O, TextFieldDefinition<DetermineOptional<O>>>;
 
 export function text<const O extends TextFieldOptions = TextFieldOptions>(options?: O): TextFieldReturn<O> {
   const opts = (options ?? {}) as TextFieldOptions;
   const optional = resolveOptional(opts) as DetermineOptional<O>;
   const hasDefault = 'default' in opts && opts.default !== undefined;
 
-  const parse: FieldDefinition<string>['parse'] = (value, ctx) => {
+  const parse: FieldDefinition<string>['parse'] = (input, ctx) => {
+    let value = input;
+    if ((typeof value === 'number' || typeof value === 'boolean') && shouldCoerce(opts, ctx)) {
+      value = recordCoercion(ctx, value, String(value));
+    }
+
     if (typeof value !== 'string') {
       return {
         success: false,
@@ -82,6 +172,15 @@ export function text<const O extends TextFieldOptions = TextFieldOptions>(option
       };
     }
 
+    if (opts.format && !textFormats[opts.format].validate(value)) {
+      return {
+        success: false,
+        issues: [
+          issue(ctx.path, `Expected a valid ${textFormats[opts.format].label}`, 'invalid_format', opts.format, value)
+        ]
+      };
+    }
+
     return { success: true, value };
   };
 
@@ -89,15 +188,17 @@ export function text<const O extends TextFieldOptions = TextFieldOptions>(option
     kind: 'text',
     description: opts.description,
     optional,
+    nullable: opts.nullable ?? false,
     hasDefault,
-    defaultValue: hasDefault ? (() => opts.default!) : undefined,
+    defaultValue: hasDefault ? () => resolveDefault(opts.default!) : undefined,
     parse,
     toPrompt: (name) => {
-      const requirement = optional ? 'optional' : 'required';
+      const requirement = describeRequirement(optional, opts.nullable);
       const constraints: string[] = [];
       if (opts.minLength !== undefined) constraints.push(`min ${opts.minLength} chars`);
       if (opts.maxLength !== undefined) constraints.push(`max ${opts.maxLength} chars`);
       if (opts.pattern) constraints.push(`pattern ${opts.pattern}`);
+      if (opts.format) constraints.push(textFormats[opts.format].hint);
       const constraintText = constraints.length > 0 ? ` (${constraints.join(', ')})` : '';
       const description = opts.description ? ` - ${opts.description}` : '';
       return `"${name}": string (${requirement})${constraintText}${description}`;
@@ -107,7 +208,48 @@ export function text<const O extends TextFieldOptions = TextFieldOptions>(option
   } as TextFieldReturn<O>;
 }
 
-type MarkdownFieldReturn<O extends MarkdownFieldOptions> = MarkdownFieldDefinition<DetermineOptional<O>>;
+// Checks each `@[Name](type:id)` mention against the allowed types and the entity registry,
+// rewriting mentions to canonical IDs.
+function resolveMentions(
+  source: string,
+  root: MarkdownNode,
+  options: MarkdownFieldOptions,
+  ctx: ParseContext
+): { value: string; issues: ParseIssue[] } {
+  const allowed = Array.isArray(options.mentions) && options.mentions.length > 0 ? options.mentions : undefined;
+  const issues: ParseIssue[] = [];
+  let value = '';
+  let cursor = 0;
+
+  for (const mention of findMentions(root)) {
+    const type = mention.entityType!;
+    const id = mention.id!;
+    const { line, column } = markdownPosition(source, mention.start);
+    const raw = source.slice(mention.start, mention.end);
+
+    if (allowed && !allowed.includes(type)) {
+      issues.push(
+        issue(ctx.path, `Mentions of ${type} are not allowed (line ${line}, column ${column})`, 'invalid_markdown', allowed.join(' | '), raw)
+      );
+      continue;
+    }
+
+    const resolved = ctx.entities ? resolveEntity(ctx.entities, type, id) : undefined;
+    if (resolved === null) {
+      issues.push(issue(ctx.path, `Unknown ${type} "${id}" (line ${line}, column ${column})`, 'unresolved_entity', type, raw));
+    } else if (resolved instanceof EntityLookupFailure) {
+      issues.push(issue(ctx.path, `${resolved.message} (line ${line}, column ${column})`, 'unresolved_entity', type, raw));
+    } else if (resolved && resolved.id !== id) {
+      const label = source.slice(mention.contentStart, mention.contentEnd);
+      value += `${source.slice(cursor, mention.start)}@[${label}](${type}:${resolved.id})`;
+      cursor = mention.end;
+    }
+  }
+
+  return { value: value + source.slice(cursor), issues };
+}
+
+type MarkdownFieldReturn<O extends MarkdownFieldOptions> = WithNullable<O, MarkdownFieldDefinition<DetermineOptional<O>>>;
 
 export function md<const O extends MarkdownFieldOptions = MarkdownFieldOptions>(options?: O): MarkdownFieldReturn<O> {
   const opts = (options ?? {}) as MarkdownFieldOptions;
@@ -122,7 +264,43 @@ export function md<const O extends MarkdownFieldOptions = MarkdownFieldOptions>(
       };
     }
 
-    if (opts.maxLength !== undefined && value.length > opts.maxLength) {
+    let output = value;
+    if (hasMarkdownRules(opts) || hasMarkdownStructure(opts) || opts.mentions) {
+      const parseOptions = { mentions: Boolean(opts.mentions) };
+      let root = parseMarkdown(value, parseOptions);
+      const violations = findDisallowedMarkdown(root, opts);
+      const issues: ParseIssue[] = [];
+
+      if (violations.length > 0 && opts.stripDisallowed) {
+        output = stripMarkdown(value, root, violations.map((violation) => violation.node));
+        root = parseMarkdown(output, parseOptions);
+      } else {
+        issues.push(
+          ...violations.map(({ node, label, message }) => {
+            const { line, column } = markdownPosition(value, node.start);
+            return issue(
+              ctx.path,
+              `${message} (line ${line}, column ${column})`,
+              'invalid_markdown',
+              `markdown without ${label}`,
+              value.slice(node.start, node.end)
+            );
+          })
+        );
+      }
+
+      issues.push(...checkMarkdownStructure(output, root, opts, ctx.path));
+      const mentions = resolveMentions(output, root, opts, ctx);
+      issues.push(...mentions.issues);
+      if (issues.length > 0) {
+        return { success: false, issues };
+      }
+      if (mentions.value !== value) {
+        output = recordCoercion(ctx, value, mentions.value);
+      }
+    }
+
+    if (opts.maxLength !== undefined && output.length > opts.maxLength) {
       return {
         success: false,
         issues: [
@@ -131,26 +309,32 @@ export function md<const O extends MarkdownFieldOptions = MarkdownFieldOptions>(
             `Markdown exceeds maximum length ${opts.maxLength}`,
             'too_big',
             `<= ${opts.maxLength}`,
-            value.length
+            output.length
           )
         ]
       };
     }
 
-    return { success: true, value };
+    return { success: true, value: output };
   };
 
   return {
     kind: 'markdown',
     description: opts.description,
     optional,
+    nullable: opts.nullable ?? false,
     hasDefault,
-    defaultValue: hasDefault ? (() => opts.default!) : undefined,
+    defaultValue: hasDefault ? () => resolveDefault(opts.default!) : undefined,
     parse,
     toPrompt: (name) => {
-      const requirement = optional ? 'optional' : 'required';
+      const requirement = describeRequirement(optional, opts.nullable);
       const constraints: string[] = [];
       if (opts.maxLength !== undefined) constraints.push(`max ${opts.maxLength} chars`);
+      const rules = describeMarkdownRules(opts);
+      if (rules) constraints.push(rules);
+      constraints.push(...describeMarkdownStructure(opts));
+      const mentions = describeMarkdownMentions(opts);
+      if (mentions) constraints.push(mentions);
       const constraintText = constraints.length > 0 ? ` (${constraints.join(', ')})` : '';
       const description = opts.description ? ` - ${opts.description}` : '';
       return `"${name}": markdown (${requirement})${constraintText}${description}`;
@@ -160,14 +344,22 @@ export function md<const O extends MarkdownFieldOptions = MarkdownFieldOptions>(
   } as MarkdownFieldReturn<O>;
 }
 
-type NumberFieldReturn<O extends NumberFieldOptions> = NumberFieldDefinition<DetermineOptional<O>>;
+type NumberFieldReturn<O extends NumberFieldOptions> = WithNullable<O, NumberFieldDefinition<DetermineOptional<O>>>;
 
 const createNumberField = <const O extends NumberFieldOptions = NumberFieldOptions>(options?: O): NumberFieldReturn<O> => {
   const opts = (options ?? {}) as NumberFieldOptions;
   const optional = resolveOptional(opts) as DetermineOptional<O>;
   const hasDefault = 'default' in opts && opts.default !== undefined;
 
-  const parse: FieldDefinition<number>['parse'] = (value, ctx) => {
+  const parse: FieldDefinition<number>['parse'] = (input, ctx) => {
+    let value = input;
+    if (typeof value === 'string' && shouldCoerce(opts, ctx)) {
+      const coerced = coerceNumber(value);
+      if (coerced !== undefined) {
+        value = recordCoercion(ctx, value, coerced);
+      }
+    }
+
     if (typeof value !== 'number' || Number.isNaN(value)) {
       return {
         success: false,
@@ -208,11 +400,12 @@ const createNumberField = <const O extends NumberFieldOptions = NumberFieldOptio
     kind: 'number',
     description: opts.description,
     optional,
+    nullable: opts.nullable ?? false,
     hasDefault,
-    defaultValue: hasDefault ? (() => opts.default!) : undefined,
+    defaultValue: hasDefault ? () => resolveDefault(opts.default!) : undefined,
     parse,
     toPrompt: (name) => {
-      const requirement = optional ? 'optional' : 'required';
+      const requirement = describeRequirement(optional, opts.nullable);
       const constraints: string[] = [];
       if (opts.min !== undefined) constraints.push(`min ${opts.min}`);
       if (opts.max !== undefined) constraints.push(`max ${opts.max}`);
@@ -228,14 +421,22 @@ const createNumberField = <const O extends NumberFieldOptions = NumberFieldOptio
 
 export const number = createNumberField;
 
-type BooleanFieldReturn<O extends BooleanFieldOptions> = BooleanFieldDefinition<DetermineOptional<O>>;
+type BooleanFieldReturn<O extends BooleanFieldOptions> = WithNullable<O, BooleanFieldDefinition<DetermineOptional<O>>>;
 
 const createBooleanField = <const O extends BooleanFieldOptions = BooleanFieldOptions>(options?: O): BooleanFieldReturn<O> => {
   const opts = (options ?? {}) as BooleanFieldOptions;
   const optional = resolveOptional(opts) as DetermineOptional<O>;
   const hasDefault = 'default' in opts && opts.default !== undefined;
 
-  const parse: FieldDefinition<boolean>['parse'] = (value, ctx) => {
+  const parse: FieldDefinition<boolean>['parse'] = (input, ctx) => {
+    let value = input;
+    if (typeof value !== 'boolean' && shouldCoerce(opts, ctx)) {
+      const coerced = coerceBoolean(value);
+      if (coerced !== undefined) {
+        value = recordCoercion(ctx, value, coerced);
+      }
+    }
+
     if (typeof value !== 'boolean') {
       return {
         success: false,
@@ -249,11 +450,12 @@ const createBooleanField = <const O extends BooleanFieldOptions = BooleanFieldOp
     kind: 'boolean',
     description: opts.description,
     optional,
+    nullable: opts.nullable ?? false,
     hasDefault,
-    defaultValue: hasDefault ? (() => opts.default!) : undefined,
+    defaultValue: hasDefault ? () => resolveDefault(opts.default!) : undefined,
     parse,
     toPrompt: (name) => {
-      const requirement = optional ? 'optional' : 'required';
+      const requirement = describeRequirement(optional, opts.nullable);
       const description = opts.description ? ` - ${opts.description}` : '';
       return `"${name}": boolean (${requirement})${description}`;
     },
@@ -264,7 +466,7 @@ const createBooleanField = <const O extends BooleanFieldOptions = BooleanFieldOp
 
 export const boolean = createBooleanField;
 
-type DateFieldReturn<O extends DateFieldOptions> = DateFieldDefinition<DetermineOptional<O>>;
+type DateFieldReturn<O extends DateFieldOptions> = WithNullable<O, DateFieldDefinition<DetermineOptional<O>>>;
 
 export function date<const O extends DateFieldOptions = DateFieldOptions>(options?: O): DateFieldReturn<O> {
   const opts = (options ?? {}) as DateFieldOptions;
@@ -283,10 +485,11 @@ export function date<const O extends DateFieldOptions = DateFieldOptions>(option
     kind: 'date',
     description: opts.description,
     optional,
+    nullable: opts.nullable ?? false,
     hasDefault,
     defaultValue: hasDefault
       ? () => {
-          const resolved = determineDate((opts as DateFieldOptions).default, opts);
+          const resolved = determineDate(resolveDefault((opts as DateFieldOptions).default!), opts);
           if (!resolved.success) {
             throw new Error('Invalid default date value');
           }
@@ -295,7 +498,7 @@ export function date<const O extends DateFieldOptions = DateFieldOptions>(option
       : undefined,
     parse,
     toPrompt: (name) => {
-      const requirement = optional ? 'optional' : 'required';
+      const requirement = describeRequirement(optional, opts.nullable);
       const format = opts.format === 'date' ? 'ISO date' : 'ISO date-time';
       const description = opts.description ? ` - ${opts.description}` : '';
       return `"${name}": ${format} string (${requirement})${description}`;
@@ -305,15 +508,201 @@ export function date<const O extends DateFieldOptions = DateFieldOptions>(option
   } as DateFieldReturn<O>;
 }
 
+type DurationFieldReturn<O extends DurationFieldOptions> = WithNullable<O, DurationFieldDefinition<DetermineOptional<O>>>;
+
+function durationBound(value: string | undefined, name: 'min' | 'max'): number | undefined {
+  if (value === undefined) return undefined;
+  const seconds = durationToSeconds(value);
+  if (seconds === undefined) {
+    throw new Error(`Invalid duration ${name} value: ${value}`);
+  }
+  return seconds;
+}
+
+export function duration<const O extends DurationFieldOptions = DurationFieldOptions>(
+  options?: O
+): DurationFieldReturn<O> {
+  const opts = (options ?? {}) as DurationFieldOptions;
+  const optional = resolveOptional(opts) as DetermineOptional<O>;
+  const hasDefault = 'default' in opts && opts.default !== undefined;
+  const minSeconds = durationBound(opts.min, 'min');
+  const maxSeconds = durationBound(opts.max, 'max');
+
+  const parse: FieldDefinition<string>['parse'] = (input, ctx) => {
+    let value = input;
+    if (typeof value === 'string' && !isIsoDuration(value) && shouldCoerce(opts, ctx)) {
+      const upper = value.trim().toUpperCase();
+      const coerced = isIsoDuration(upper) ? upper : parseDurationString(value);
+      if (coerced !== undefined) {
+        value = recordCoercion(ctx, value, coerced);
+      }
+    }
+
+    if (typeof value !== 'string') {
+      return {
+        success: false,
+        issues: [issue(ctx.path, 'Expected ISO 8601 duration string', 'invalid_type', 'string', typeof value)]
+      };
+    }
+
+    const seconds = durationToSeconds(value);
+    if (seconds === undefined) {
+      return {
+        success: false,
+        issues: [issue(ctx.path, 'Expected an ISO 8601 duration such as PT45M', 'invalid_format', 'duration', value)]
+      };
+    }
+
+    if (minSeconds !== undefined && seconds < minSeconds) {
+      return {
+        success: false,
+        issues: [issue(ctx.path, `Duration must be at least ${opts.min}`, 'too_small', `>= ${opts.min}`, value)]
+      };
+    }
+
+    if (maxSeconds !== undefined && seconds > maxSeconds) {
+      return {
+        success: false,
+        issues: [issue(ctx.path, `Duration must be at most ${opts.max}`, 'too_big', `<= ${opts.max}`, value)]
+      };
+    }
+
+    return { success: true, value };
+  };
+
+  return {
+    kind: 'duration',
+    description: opts.description,
+    optional,
+    nullable: opts.nullable ?? false,
+    hasDefault,
+    defaultValue: hasDefault
+      ? () => {
+          const resolved = parse(resolveDefault(opts.default!), { path: [] });
+          if (!resolved.success) {
+            throw new Error('Invalid default duration value');
+          }
+          return resolved.value;
+        }
+      : undefined,
+    parse,
+    toPrompt: (name) => {
+      const requirement = describeRequirement(optional, opts.nullable);
+      const description = opts.description ? ` - ${opts.description}` : '';
+      return `"${name}": ISO 8601 duration string (${requirement})${description}`;
+    },
+    options: opts,
+    _optional: optional
+  } as DurationFieldReturn<O>;
+}
+
+type DateRangeFieldReturn<O extends DateRangeFieldOptions> = WithNullable<
+  O,
+  DateRangeFieldDefinition<DetermineOptional<O>>
+>;
+
+export function dateRange<const O extends DateRangeFieldOptions = DateRangeFieldOptions>(
+  options?: O
+): DateRangeFieldReturn<O> {
+  const opts = (options ?? {}) as DateRangeFieldOptions;
+  const optional = resolveOptional(opts) as DetermineOptional<O>;
+  const hasDefault = 'default' in opts && opts.default !== undefined;
+  const format = opts.format ?? 'date';
+
+  const parse: FieldDefinition<DateRange>['parse'] = (input, ctx) => {
+    let value = input;
+    if (typeof value === 'string' && shouldCoerce(opts, ctx)) {
+      const range = parseDateRangeString(value, format);
+      if (range) {
+        value = recordCoercion(ctx, value, range);
+      }
+    }
+
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return {
+        success: false,
+        issues: [issue(ctx.path, 'Expected date range object', 'invalid_type', 'object', value)]
+      };
+    }
+
+    const record = value as Record<string, unknown>;
+    const issues: ParseIssue[] = [];
+    const bounds: Partial<DateRange> = {};
+
+    for (const key of ['start', 'end'] as const) {
+      const boundPath = appendPath(ctx.path, key);
+      if (record[key] === undefined || record[key] === null) {
+        issues.push(issue(boundPath, 'Field is required', 'required'));
+        continue;
+      }
+      const resolved = determineDate(record[key], { format });
+      if (resolved.success) {
+        bounds[key] = resolved.value;
+      } else {
+        issues.push(resolved.issue(boundPath));
+      }
+    }
+
+    if (issues.length > 0) {
+      return { success: false, issues };
+    }
+
+    const { start, end } = bounds as DateRange;
+    if (end.getTime() < start.getTime()) {
+      return {
+        success: false,
+        issues: [
+          issue(
+            appendPath(ctx.path, 'end'),
+            'End date must not be before start date',
+            'too_small',
+            `>= ${start.toISOString()}`,
+            record.end
+          )
+        ]
+      };
+    }
+
+    return { success: true, value: { start, end } };
+  };
+
+  return {
+    kind: 'dateRange',
+    description: opts.description,
+    optional,
+    nullable: opts.nullable ?? false,
+    hasDefault,
+    defaultValue: hasDefault
+      ? () => {
+          const resolved = parse(resolveDefault(opts.default!), { path: [] });
+          if (!resolved.success) {
+            throw new Error('Invalid default date range value');
+          }
+          return resolved.value;
+        }
+      : undefined,
+    parse,
+    toPrompt: (name) => {
+      const requirement = describeRequirement(optional, opts.nullable);
+      const bound = format === 'date' ? 'ISO date' : 'ISO date-time';
+      const description = opts.description ? ` - ${opts.description}` : '';
+      return `"${name}": { start, end } ${bound} range (${requirement})${description}`;
+    },
+    options: opts,
+    _optional: optional
+  } as DateRangeFieldReturn<O>;
+}
+
 export function enumType<
   const Values extends readonly string[],
   const O extends EnumFieldOptions<Values> = EnumFieldOptions<Values>
->(values: Values, options?: O): EnumFieldDefinition<Values, DetermineOptional<O>> {
+>(values: Values, options?: O): WithNullable<O, EnumFieldDefinition<Values, DetermineOptional<O>>> {
   const opts = (options ?? {}) as EnumFieldOptions<Values>;
   const optional = resolveOptional(opts) as DetermineOptional<O>;
   const hasDefault = 'default' in opts && opts.default !== undefined;
 
-  const parse: FieldDefinition<Values[number]>['parse'] = (value, ctx) => {
+  const parse: FieldDefinition<Values[number]>['parse'] = (input, ctx) => {
+    let value = input;
     if (typeof value !== 'string') {
       return {
         success: false,
@@ -321,6 +710,13 @@ export function enumType<
       };
     }
 
+    if (!values.includes(value as Values[number]) && shouldCoerce(opts, ctx)) {
+      const coerced = coerceEnumValue(value, values, opts.aliases);
+      if (coerced !== undefined) {
+        value = recordCoercion(ctx, value, coerced);
+      }
+    }
+
     if (!values.includes(value as Values[number])) {
       return {
         success: false,
@@ -343,14 +739,17 @@ export function enumType<
     kind: 'enum',
     description: opts.description,
     optional,
+    nullable: opts.nullable ?? false,
     hasDefault,
-    defaultValue: hasDefault ? (() => opts.default!) : undefined,
+    defaultValue: hasDefault ? () => resolveDefault(opts.default!) : undefined,
     parse,
     toPrompt: (name) => {
-      const requirement = optional ? 'optional' : 'required';
+      const requirement = describeRequirement(optional, opts.nullable);
       const valuesText = values.map((v) => `'${v}'`).join(' | ');
+      const labels = describeEnumLabels(values, opts);
+      const labelText = labels ? ` (${labels})` : '';
       const description = opts.description ? ` - ${opts.description}` : '';
-      return `"${name}": ${valuesText} (${requirement})${description}`;
+      return `"${name}": ${valuesText} (${requirement})${labelText}${description}`;
     },
     options: opts,
     values,
@@ -361,7 +760,7 @@ export function enumType<
 export function entity<
   const Type extends string,
   const O extends Omit<EntityFieldOptions, 'type'> = Omit<EntityFieldOptions, 'type'>
->(type: Type, options?: O): EntityFieldDefinition<Type, DetermineOptional<O & { type: Type }>> {
+>(type: Type, options?: O): WithNullable<O, EntityFieldDefinition<Type, DetermineOptional<O & { type: Type }>>> {
   const opts = ({ ...(options ?? {}), type } as unknown) as EntityFieldOptions;
   const optional = resolveOptional(opts) as DetermineOptional<O & { type: Type }>;
   const hasDefault = 'default' in opts && opts.default !== undefined;
@@ -373,6 +772,20 @@ export function entity<
         issues: [issue(ctx.path, 'Expected entity identifier string', 'invalid_type', 'string', typeof value)]
       };
     }
+
+    const resolved = ctx.entities ? resolveEntity(ctx.entities, type, value) : undefined;
+    if (resolved === null) {
+      return {
+        success: false,
+        issues: [issue(ctx.path, `Unknown ${type} "${value}"`, 'unresolved_entity', type, value)]
+      };
+    }
+    if (resolved instanceof EntityLookupFailure) {
+      return { success: false, issues: [issue(ctx.path, resolved.message, 'unresolved_entity', type, value)] };
+    }
+    if (resolved && resolved.id !== value) {
+      return { success: true, value: recordCoercion(ctx, value, resolved.id) };
+    }
     return { success: true, value };
   };
 
@@ -380,11 +793,12 @@ export function entity<
     kind: 'entity',
     description: opts.description,
     optional,
+    nullable: opts.nullable ?? false,
     hasDefault,
-    defaultValue: hasDefault ? (() => opts.default!) : undefined,
+    defaultValue: hasDefault ? () => resolveDefault(opts.default!) : undefined,
     parse,
     toPrompt: (name) => {
-      const requirement = optional ? 'optional' : 'required';
+      const requirement = describeRequirement(optional, opts.nullable);
       const description = opts.description ? ` - ${opts.description}` : '';
       return `"${name}": string (${requirement}, entity: ${type})${description}`;
     },
@@ -394,14 +808,367 @@ export function entity<
   };
 }
 
+export function literal<
+  const Value extends LiteralValue,
+  const O extends LiteralFieldOptions<Value> = LiteralFieldOptions<Value>
+>(value: Value, options?: O): WithNullable<O, LiteralFieldDefinition<Value, DetermineOptional<O>>> {
+  const opts = (options ?? {}) as LiteralFieldOptions<Value>;
+  const autoFill = opts.autoFill ?? false;
+  const optional = (resolveOptional(opts) || autoFill) as DetermineOptional<O>;
+  const expected = JSON.stringify(value);
+
+  const parse: FieldDefinition<Value>['parse'] = (input, ctx) => {
+    let candidate = input;
+    if (
+      candidate !== value &&
+      (typeof candidate === 'string' || typeof candidate === 'number' || typeof candidate === 'boolean') &&
+      String(candidate).toLowerCase() === String(value).toLowerCase() &&
+      shouldCoerce(opts, ctx)
+    ) {
+      candidate = recordCoercion(ctx, candidate, value);
+    }
+
+    if (candidate !== value) {
+      return {
+        success: false,
+        issues: [issue(ctx.path, `Expected literal value ${expected}`, 'invalid_literal', expected, candidate)]
+      };
+    }
+
+    return { success: true, value };
+  };
+
+  return {
+    kind: 'literal',
+    description: opts.description,
+    optional,
+    nullable: opts.nullable ?? false,
+    hasDefault: autoFill,
+    defaultValue: autoFill ? () => value : undefined,
+    parse,
+    toPrompt: (name) => {
+      const requirement = describeRequirement(optional, opts.nullable);
+      const description = opts.description ? ` - ${opts.description}` : '';
+      return `"${name}": ${expected} (${requirement}, always this exact value)${description}`;
+    },
+    options: opts,
+    value,
+    _optional: optional
+  } as WithNullable<O, LiteralFieldDefinition<Value, DetermineOptional<O>>>;
+}
+
+type CitationFieldReturn<O extends CitationFieldOptions> = WithNullable<O, CitationFieldDefinition<DetermineOptional<O>>>;
+
+function isOffset(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+export function citation<const O extends CitationFieldOptions = CitationFieldOptions>(
+  options?: O
+): CitationFieldReturn<O> {
+  const opts = (options ?? {}) as CitationFieldOptions;
+  const optional = resolveOptional(opts) as DetermineOptional<O>;
+
+  const parse: FieldDefinition<Citation>['parse'] = (input, ctx) => {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      return {
+        success: false,
+        issues: [issue(ctx.path, 'Expected citation object', 'invalid_type', 'object', input)]
+      };
+    }
+
+    const { quote, start, end } = input as Record<string, unknown>;
+    const issues: ParseIssue[] = [];
+
+    if (typeof quote !== 'string' || quote.trim() === '') {
+      issues.push(issue(appendPath(ctx.path, 'quote'), 'Expected non-empty quote', 'invalid_type', 'string', quote));
+    }
+
+    for (const [key, offset] of [['start', start], ['end', end]] as const) {
+      if (offset === undefined ? opts.requireOffsets : !isOffset(offset)) {
+        issues.push(
+          issue(appendPath(ctx.path, key), 'Expected character offset', 'invalid_type', 'non-negative integer', offset)
+        );
+      }
+    }
+
+    if (issues.length > 0) {
+      return { success: false, issues };
+    }
+
+    const value: Citation = { quote: quote as string };
+    if (start !== undefined) value.start = start as number;
+    if (end !== undefined) value.end = end as number;
+
+    if (value.start !== undefined && value.end !== undefined && value.end < value.start) {
+      return {
+        success: false,
+        issues: [issue(ctx.path, 'Citation end must not be before start', 'invalid_citation', `>= ${value.start}`, value.end)]
+      };
+    }
+
+    if (ctx.source === undefined) {
+      return { success: true, value };
+    }
+
+    if (value.start !== undefined) {
+      const end = value.end ?? value.start + value.quote.length;
+      const excerpt = ctx.source.slice(value.start, end);
+      if (!quoteMatches(value.quote, excerpt)) {
+        return {
+          success: false,
+          issues: [
+            issue(
+              ctx.path,
+              `Quote does not match the source text at ${value.start}-${end}`,
+              'invalid_citation',
+              value.quote,
+              excerpt
+            )
+          ]
+        };
+      }
+      return { success: true, value: { ...value, end } };
+    }
+
+    const located = locateQuote(ctx.source, value.quote);
+    if (!located) {
+      return {
+        success: false,
+        issues: [issue(ctx.path, 'Quote was not found in the source text', 'invalid_citation', undefined, value.quote)]
+      };
+    }
+
+    return { success: true, value: { ...value, ...located } };
+  };
+
+  return {
+    kind: 'citation',
+    description: opts.description,
+    optional,
+    nullable: opts.nullable ?? false,
+    hasDefault: false,
+    defaultValue: undefined,
+    parse,
+    toPrompt: (name) => {
+      const requirement = describeRequirement(optional, opts.nullable);
+      const offsets = opts.requireOffsets ? 'start/end character offsets required' : 'start/end character offsets optional';
+      const description = opts.description ? ` - ${opts.description}` : '';
+      return `"${name}": citation (${requirement}, exact quote from the source, ${offsets})${description}`;
+    },
+    options: opts,
+    _optional: optional
+  } as CitationFieldReturn<O>;
+}
+
+interface MeasureConfig {
+  noun: string;
+  amountKey: string;
+  labelKey: string;
+  labels?: readonly string[];
+  labelPattern?: RegExp;
+  min?: number;
+  max?: number;
+  fromString(value: string): Record<string, unknown> | undefined;
+  normalizeLabel?(label: string): string;
+}
+
+function parseMeasure(
+  input: unknown,
+  ctx: ParseContext,
+  config: MeasureConfig,
+  coerce: boolean
+): FieldParseResult<Record<string, unknown>> {
+  let value = input;
+  if (typeof value === 'string' && coerce) {
+    const parsed = config.fromString(value);
+    if (parsed) {
+      value = recordCoercion(ctx, value, parsed);
+    }
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return {
+      success: false,
+      issues: [issue(ctx.path, `Expected ${config.noun} object`, 'invalid_type', 'object', value)]
+    };
+  }
+
+  const record = value as Record<string, unknown>;
+  const amountPath = appendPath(ctx.path, config.amountKey);
+  const labelPath = appendPath(ctx.path, config.labelKey);
+  let amount = record[config.amountKey];
+  let label = record[config.labelKey];
+
+  if (coerce && typeof amount === 'string') {
+    const coerced = coerceNumber(amount);
+    if (coerced !== undefined) {
+      amount = recordCoercion({ ...ctx, path: amountPath }, amount, coerced);
+    }
+  }
+
+  if (coerce && typeof label === 'string') {
+    const normalized = config.labels
+      ? coerceEnumValue(label, config.labels)
+      : config.normalizeLabel?.(label.trim());
+    if (normalized !== undefined && normalized !== label) {
+      label = recordCoercion({ ...ctx, path: labelPath }, label, normalized);
+    }
+  }
+
+  const issues: ParseIssue[] = [];
+
+  if (typeof amount !== 'number' || !Number.isFinite(amount)) {
+    issues.push(issue(amountPath, 'Expected number value', 'invalid_type', 'number', typeof amount));
+  } else if (config.min !== undefined && amount < config.min) {
+    issues.push(issue(amountPath, `Value must be >= ${config.min}`, 'too_small', `>= ${config.min}`, amount));
+  } else if (config.max !== undefined && amount > config.max) {
+    issues.push(issue(amountPath, `Value must be <= ${config.max}`, 'too_big', `<= ${config.max}`, amount));
+  }
+
+  if (typeof label !== 'string' || label.trim() === '') {
+    issues.push(issue(labelPath, `Expected ${config.labelKey}`, 'invalid_type', 'string', typeof label));
+  } else if (config.labels && !config.labels.includes(label)) {
+    issues.push(
+      issue(labelPath, `Value must be one of: ${config.labels.join(', ')}`, 'invalid_enum_value', config.labels.join(' | '), label)
+    );
+  } else if (config.labelPattern && !config.labelPattern.test(label)) {
+    issues.push(
+      issue(labelPath, 'Value does not match required pattern', 'invalid_format', config.labelPattern.toString(), label)
+    );
+  }
+
+  if (issues.length > 0) {
+    return { success: false, issues };
+  }
+
+  return { success: true, value: { [config.amountKey]: amount, [config.labelKey]: label } };
+}
+
+type MoneyCurrency<O extends MoneyFieldOptions> = O['currencies'] extends readonly string[]
+  ? O['currencies'][number]
+  : string;
+
+type MoneyFieldReturn<O extends MoneyFieldOptions> = WithNullable<
+  O,
+  MoneyFieldDefinition<MoneyCurrency<O>, DetermineOptional<O>>
+>;
+
+export function money<const O extends MoneyFieldOptions = MoneyFieldOptions>(options?: O): MoneyFieldReturn<O> {
+  const opts = (options ?? {}) as MoneyFieldOptions;
+  const optional = resolveOptional(opts) as DetermineOptional<O>;
+  const hasDefault = 'default' in opts && opts.default !== undefined;
+
+  const config: MeasureConfig = {
+    noun: 'money',
+    amountKey: 'amount',
+    labelKey: 'currency',
+    labels: opts.currencies,
+    labelPattern: /^[A-Z]{3}$/,
+    min: opts.min,
+    max: opts.max,
+    fromString: (value) => parseMoneyString(value, opts.currencies),
+    normalizeLabel: (label) => label.toUpperCase()
+  };
+
+  return {
+    kind: 'money',
+    description: opts.description,
+    optional,
+    nullable: opts.nullable ?? false,
+    hasDefault,
+    defaultValue: hasDefault ? () => resolveDefault(opts.default!) : undefined,
+    parse: (input, ctx) => parseMeasure(input, ctx, config, shouldCoerce(opts, ctx)),
+    toPrompt: (name) => {
+      const requirement = describeRequirement(optional, opts.nullable);
+      const currencies = opts.currencies ? `, currency ${opts.currencies.join(' | ')}` : '';
+      const description = opts.description ? ` - ${opts.description}` : '';
+      return `"${name}": money (${requirement}${currencies})${description}`;
+    },
+    options: opts,
+    _optional: optional
+  } as MoneyFieldReturn<O>;
+}
+
+type QuantityUnit<O extends QuantityFieldOptions> = O['units'] extends readonly string[] ? O['units'][number] : string;
+
+type QuantityFieldReturn<O extends QuantityFieldOptions> = WithNullable<
+  O,
+  QuantityFieldDefinition<QuantityUnit<O>, DetermineOptional<O>>
+>;
+
+export function quantity<const O extends QuantityFieldOptions = QuantityFieldOptions>(
+  options?: O
+): QuantityFieldReturn<O> {
+  const opts = (options ?? {}) as QuantityFieldOptions;
+  const optional = resolveOptional(opts) as DetermineOptional<O>;
+  const hasDefault = 'default' in opts && opts.default !== undefined;
+
+  const config: MeasureConfig = {
+    noun: 'quantity',
+    amountKey: 'value',
+    labelKey: 'unit',
+    labels: opts.units,
+    min: opts.min,
+    max: opts.max,
+    fromString: parseQuantityString
+  };
+
+  return {
+    kind: 'quantity',
+    description: opts.description,
+    optional,
+    nullable: opts.nullable ?? false,
+    hasDefault,
+    defaultValue: hasDefault ? () => resolveDefault(opts.default!) : undefined,
+    parse: (input, ctx) => parseMeasure(input, ctx, config, shouldCoerce(opts, ctx)),
+    toPrompt: (name) => {
+      const requirement = describeRequirement(optional, opts.nullable);
+      const units = opts.units ? `, unit ${opts.units.join(' | ')}` : '';
+      const description = opts.description ? ` - ${opts.description}` : '';
+      return `"${name}": quantity (${requirement}${units})${description}`;
+    },
+    options: opts,
+    _optional: optional
+  } as QuantityFieldReturn<O>;
+}
+
+export function array<
+  const Item extends AnyFieldDefinition,
+  const O extends ArrayFieldOptions = ArrayFieldOptions
+>(
+  item: Item,
+  options?: O & { default?: DefaultValue<Array<FieldOutput<Item>>> }
+): WithNullable<O, PrimitiveArrayFieldDefinition<Item, DetermineOptional<O>>>;
 export function array<
   const Definition extends SchemaDefinition,
   const O extends ArrayFieldOptions = ArrayFieldOptions
->(options: O & { schema: Definition }): ArrayFieldDefinition<Definition, DetermineOptional<O>> {
-  const optional = resolveOptional(options) as DetermineOptional<O>;
-  const hasDefault = 'default' in options && (options as Record<string, unknown>).default !== undefined;
+>(
+  options: O & { schema: Definition; default?: DefaultValue<Array<DeepPartial<SchemaOutput<Definition>>>> }
+): WithNullable<O, ArrayFieldDefinition<Definition, DetermineOptional<O>>>;
+export function array(
+  itemOrOptions: AnyFieldDefinition | (ArrayFieldOptions & { schema: SchemaDefinition }),
+  itemOptions?: ArrayFieldOptions
+): AnyFieldDefinition {
+  const item = isFieldDefinition(itemOrOptions) ? itemOrOptions : undefined;
+  const options = (item ? itemOptions ?? {} : itemOrOptions) as ArrayFieldOptions & { schema?: SchemaDefinition };
+  const optional = resolveOptional(options);
+  const hasDefault = 'default' in options && options.default !== undefined;
 
-  const parse = (value: unknown, ctx: { path: string[] }): FieldParseResult<SchemaOutput<Definition>[]> => {
+  const parseItem = (entry: unknown, path: string[], ctx: ParseContext): FieldParseResult<unknown> => {
+    const nestedOptions = {
+      ...ctx,
+      unknownKeys: options.unknownKeys ?? ctx.unknownKeys,
+      coerce: shouldCoerce(options, ctx)
+    };
+    if (item) {
+      return parseFieldValue(item, entry, path, nestedOptions);
+    }
+    const nested = parseDefinition(options.schema!, entry, path, nestedOptions);
+    return nested.success ? { success: true, value: nested.data } : nested;
+  };
+
+  const parse = (value: unknown, ctx: ParseContext): FieldParseResult<unknown[]> => {
     if (!Array.isArray(value)) {
       return {
         success: false,
@@ -410,7 +1177,7 @@ export function array<
     }
 
     const issues: ParseIssue[] = [];
-    const result: SchemaOutput<Definition>[] = [];
+    const result: unknown[] = [];
 
     if (options.minItems !== undefined && value.length < options.minItems) {
       issues.push(
@@ -436,10 +1203,10 @@ export function array<
       );
     }
 
-    value.forEach((item, index) => {
-      const nested = parseDefinition(options.schema, item, appendPath(ctx.path, index));
+    value.forEach((entry, index) => {
+      const nested = parseItem(entry, appendPath(ctx.path, index), ctx);
       if (nested.success) {
-        result.push(nested.data);
+        result.push(nested.value);
       } else {
         issues.push(...nested.issues);
       }
@@ -449,10 +1216,10 @@ export function array<
       return { success: false, issues };
     }
 
-    if (options.uniqueBy) {
+    if (options.uniqueBy && !item) {
       const seen = new Set<unknown>();
-      for (const item of result) {
-        const key = (item as Record<string, unknown>)[options.uniqueBy];
+      for (const entry of result) {
+        const key = (entry as Record<string, unknown>)[options.uniqueBy];
         if (key === undefined) continue;
         if (seen.has(key)) {
           return {
@@ -475,37 +1242,54 @@ export function array<
     return { success: true, value: result };
   };
 
-  return {
-    kind: 'array',
+  const field = {
+    kind: 'array' as const,
     description: options.description,
     optional,
+    nullable: options.nullable ?? false,
     hasDefault,
-    defaultValue: undefined,
+    defaultValue: hasDefault
+      ? () => {
+          const resolved = parse(resolveDefault(options.default!), { path: [] });
+          if (!resolved.success) {
+            throw new Error('Invalid default array value');
+          }
+          return resolved.value;
+        }
+      : undefined,
     parse,
-    toPrompt: (name, promptOptions) => {
-      const requirement = optional ? 'optional' : 'required';
+    toPrompt: (name: string) => {
+      const requirement = describeRequirement(optional, options.nullable);
       const description = options.description ? ` - ${options.description}` : '';
       const constraints: string[] = [];
       if (options.minItems !== undefined) constraints.push(`min ${options.minItems}`);
       if (options.maxItems !== undefined) constraints.push(`max ${options.maxItems}`);
       const constraintText = constraints.length ? ` (${constraints.join(', ')})` : '';
-      return `"${name}": array (${requirement})${constraintText}${description}`;
+      const itemKind = item ? ` of ${item.kind}` : '';
+      return `"${name}": array${itemKind} (${requirement})${constraintText}${description}`;
     },
     options,
-    itemDefinition: options.schema,
     _optional: optional
   };
+
+  return item ? { ...field, item } : { ...field, itemDefinition: options.schema! };
 }
 
 export function object<
   const Definition extends SchemaDefinition,
   const O extends ObjectFieldOptions = ObjectFieldOptions
->(options: O & { schema: Definition }): ObjectFieldDefinition<Definition, DetermineOptional<O>> {
+>(
+  options: O & { schema: Definition; default?: DefaultValue<DeepPartial<SchemaOutput<Definition>>> }
+): WithNullable<O, ObjectFieldDefinition<Definition, DetermineOptional<O>>> {
   const optional = resolveOptional(options) as DetermineOptional<O>;
-  const hasDefault = 'default' in options && (options as Record<string, unknown>).default !== undefined;
+  const hasDefault = 'default' in options && options.default !== undefined;
 
-  const parse = (value: unknown, ctx: { path: string[] }): FieldParseResult<SchemaOutput<Definition>> => {
-    const nested = parseDefinition(options.schema, value, ctx.path);
+  const parse = (value: unknown, ctx: ParseContext): FieldParseResult<SchemaOutput<Definition>> => {
+    const nested = parseDefinition(options.schema, value, ctx.path, {
+      ...ctx,
+      unknownKeys: options.unknownKeys ?? ctx.unknownKeys,
+      coerce: shouldCoerce(options, ctx)
+    });
     if (nested.success) {
       return { success: true, value: nested.data };
     }
@@ -516,11 +1300,20 @@ export function object<
     kind: 'object',
     description: options.description,
     optional,
+    nullable: options.nullable ?? false,
     hasDefault,
-    defaultValue: undefined,
+    defaultValue: hasDefault
+      ? () => {
+          const resolved = parse(resolveDefault(options.default!), { path: [] });
+          if (!resolved.success) {
+            throw new Error('Invalid default object value');
+          }
+          return resolved.value;
+        }
+      : undefined,
     parse,
     toPrompt: (name) => {
-      const requirement = optional ? 'optional' : 'required';
+      const requirement = describeRequirement(optional, options.nullable);
       const description = options.description ? ` - ${options.description}` : '';
       return `"${name}": object (${requirement})${description}`;
     },
@@ -529,3 +1322,384 @@ export function object<
     _optional: optional
   };
 }
+
+export function named<const Definition extends SchemaDefinition>(name: string, definition: Definition): Definition {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new Error(`Invalid schema name: ${name}`);
+  }
+  setDefinitionName(definition, name);
+  return definition;
+}
+
+export function record<
+  const Value extends AnyFieldDefinition,
+  const O extends RecordFieldOptions = RecordFieldOptions
+>(
+  value: Value,
+  options?: O & { default?: DefaultValue<Record<string, FieldOutput<Value>>> }
+): WithNullable<O, RecordFieldDefinition<Value, RecordKeys<O>, DetermineOptional<O>>> {
+  const opts = (options ?? {}) as RecordFieldOptions;
+  const optional = resolveOptional(opts) as DetermineOptional<O>;
+  const hasDefault = 'default' in opts && opts.default !== undefined;
+  // `g` and `y` make `test` resume from `lastIndex`, which would fail every other key.
+  const keyPattern = opts.keyPattern && new RegExp(opts.keyPattern.source, opts.keyPattern.flags.replace(/[gy]/g, ''));
+
+  const parse = (input: unknown, ctx: ParseContext): FieldParseResult<Record<string, unknown>> => {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      return {
+        success: false,
+        issues: [issue(ctx.path, 'Expected object value', 'invalid_type', 'object', input)]
+      };
+    }
+
+    const issues: ParseIssue[] = [];
+    const result: Record<string, unknown> = {};
+
+    for (const [key, raw] of Object.entries(input as Record<string, unknown>)) {
+      const keyPath = appendPath(ctx.path, key);
+
+      if (opts.keys && !opts.keys.includes(key)) {
+        issues.push(
+          issue(keyPath, `Unexpected key "${key}"`, 'invalid_enum_value', opts.keys.join(' | '), key)
+        );
+        continue;
+      }
+
+      if (keyPattern && !keyPattern.test(key)) {
+        issues.push(
+          issue(keyPath, 'Key does not match required pattern', 'invalid_format', keyPattern.toString(), key)
+        );
+        continue;
+      }
+
+      const parsed = parseFieldValue(value, raw, keyPath, { ...ctx, coerce: shouldCoerce(opts, ctx) });
+      if (!parsed.success) {
+        issues.push(...parsed.issues);
+      } else if (parsed.value !== undefined) {
+        result[key] = parsed.value;
+      }
+    }
+
+    if (issues.length > 0) {
+      return { success: false, issues };
+    }
+
+    return { success: true, value: result };
+  };
+
+  return {
+    kind: 'record',
+    description: opts.description,
+    optional,
+    nullable: opts.nullable ?? false,
+    hasDefault,
+    defaultValue: hasDefault
+      ? () => {
+          const resolved = parse(resolveDefault(opts.default!), { path: [] });
+          if (!resolved.success) {
+            throw new Error('Invalid default record value');
+          }
+          return resolved.value;
+        }
+      : undefined,
+    parse,
+    toPrompt: (name) => {
+      const requirement = describeRequirement(optional, opts.nullable);
+      const keys = opts.keys ? ` keyed by ${opts.keys.join(' | ')}` : '';
+      const description = opts.description ? ` - ${opts.description}` : '';
+      return `"${name}": record of ${value.kind}${keys} (${requirement})${description}`;
+    },
+    options: opts,
+    value,
+    _optional: optional
+  } as WithNullable<O, RecordFieldDefinition<Value, RecordKeys<O>, DetermineOptional<O>>>;
+}
+
+type LazyGetter = () => AnyFieldDefinition | SchemaDefinition;
+
+// `Output` is spelled out by the caller because a recursive definition can't be inferred,
+// so the optional and nullable flags are picked up through overloads instead.
+export function lazy<Output>(
+  getter: LazyGetter,
+  options: LazyFieldOptions & { optional: true; nullable: true }
+): LazyFieldDefinition<Output, true> & { _nullable?: true };
+export function lazy<Output>(
+  getter: LazyGetter,
+  options: LazyFieldOptions & { optional: true }
+): LazyFieldDefinition<Output, true>;
+export function lazy<Output>(
+  getter: LazyGetter,
+  options: LazyFieldOptions & { nullable: true }
+): LazyFieldDefinition<Output, false> & { _nullable?: true };
+export function lazy<Output>(getter: LazyGetter, options?: LazyFieldOptions): LazyFieldDefinition<Output, false>;
+export function lazy<Output>(getter: LazyGetter, options?: LazyFieldOptions): LazyFieldDefinition<Output, boolean> {
+  const opts = options ?? {};
+  const optional = resolveOptional(opts);
+  let resolved: AnyFieldDefinition | undefined;
+
+  // The getter runs on first use, once every definition it refers to has been initialised.
+  const resolve = (): AnyFieldDefinition => {
+    if (!resolved) {
+      const target = getter();
+      resolved = isFieldDefinition(target) ? target : object({ schema: target });
+    }
+    return resolved;
+  };
+
+  return {
+    kind: 'lazy',
+    description: opts.description,
+    optional,
+    nullable: opts.nullable ?? false,
+    hasDefault: false,
+    parse: (value, ctx) => parseFieldValue(resolve(), value, ctx.path, ctx) as FieldParseResult<Output>,
+    toPrompt: (name) => {
+      const requirement = describeRequirement(optional, opts.nullable);
+      const description = opts.description ? ` - ${opts.description}` : '';
+      return `"${name}": ${opts.name ?? resolve().kind} (${requirement}, recursive)${description}`;
+    },
+    options: opts,
+    resolve,
+    _optional: optional
+  } as LazyFieldDefinition<Output, boolean>;
+}
+
+type ConfidenceFieldReturn<Field extends AnyFieldDefinition> = ConfidenceFieldDefinition<
+  Field,
+  Field extends { _optional?: true } ? true : false
+>;
+
+// Whether data for the field can itself be an object with a `value` key, such as an object
+// field declaring `value` or a quantity.
+function canHoldValueKey(field: AnyFieldDefinition, seen = new Set<AnyFieldDefinition>()): boolean {
+  const target = resolveLazy(field);
+  if (seen.has(target)) return false;
+  seen.add(target);
+
+  if (isObjectField(target)) return 'value' in target.shape;
+  if (isDiscriminatedUnionField(target)) return Object.values(target.variants).some((variant) => 'value' in variant);
+  if (isUnionField(target)) return target.members.some((member) => canHoldValueKey(member, seen));
+  return isRecordField(target) || isQuantityField(target) || isConfidenceField(target);
+}
+
+// An object without `confidence` is only read as an envelope when the wrapped field could not
+// hold it as a value of its own.
+function isConfidenceEnvelope(
+  value: unknown,
+  field: AnyFieldDefinition
+): value is { value: unknown; confidence?: unknown } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value) || !('value' in value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  if (!keys.every((key) => key === 'value' || key === 'confidence')) return false;
+  return keys.includes('confidence') || !canHoldValueKey(field);
+}
+
+function parseConfidence(input: unknown, ctx: ParseContext): FieldParseResult<number> {
+  let value = input;
+  if (typeof value === 'string' && ctx.coerce) {
+    const percent = /^\s*(\d+(?:\.\d+)?)\s*%\s*$/.exec(value);
+    const coerced = percent ? Number(percent[1]) / 100 : coerceNumber(value);
+    if (coerced !== undefined) {
+      value = recordCoercion(ctx, value, coerced);
+    }
+  }
+
+  if (value === undefined) {
+    return { success: false, issues: [issue(ctx.path, 'Field is required', 'required')] };
+  }
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    return {
+      success: false,
+      issues: [issue(ctx.path, 'Expected confidence between 0 and 1', 'invalid_type', 'number', typeof value)]
+    };
+  }
+  if (value < 0) {
+    return { success: false, issues: [issue(ctx.path, 'Confidence must be >= 0', 'too_small', '>= 0', value)] };
+  }
+  if (value > 1) {
+    return { success: false, issues: [issue(ctx.path, 'Confidence must be <= 1', 'too_big', '<= 1', value)] };
+  }
+  return { success: true, value };
+}
+
+// The model answers with `{ value, confidence }`; parsed data holds the bare value and
+// the score is reported in `confidences`. Bare values are accepted too, so data that has
+// already been parsed (or edited) validates again.
+export function withConfidence<const Field extends AnyFieldDefinition>(field: Field): ConfidenceFieldReturn<Field> {
+  const parse: FieldDefinition<unknown>['parse'] = (input, ctx) => {
+    if (!isConfidenceEnvelope(input, field)) {
+      return parseFieldValue(field, input, ctx.path, ctx);
+    }
+
+    const value = parseFieldValue(field, input.value, appendPath(ctx.path, 'value'), ctx);
+    const confidence = parseConfidence(input.confidence, { ...ctx, path: appendPath(ctx.path, 'confidence') });
+    if (!value.success || !confidence.success) {
+      return {
+        success: false,
+        issues: [...(value.success ? [] : value.issues), ...(confidence.success ? [] : confidence.issues)]
+      };
+    }
+
+    ctx.confidences?.push({ path: ctx.path, confidence: confidence.value });
+    return value;
+  };
+
+  return {
+    kind: 'confidence',
+    description: field.description,
+    optional: field.optional,
+    nullable: field.nullable,
+    hasDefault: field.hasDefault,
+    defaultValue: field.defaultValue,
+    parse,
+    toPrompt: (name) => `${field.toPrompt(name)} with a 0-1 confidence`,
+    options: {},
+    inner: field,
+    _optional: field.optional
+  } as ConfidenceFieldReturn<Field>;
+}
+
+export function union<
+  const Members extends readonly AnyFieldDefinition[],
+  const O extends UnionFieldOptions = UnionFieldOptions
+>(members: Members, options?: O): WithNullable<O, UnionFieldDefinition<Members, DetermineOptional<O>>> {
+  const opts = (options ?? {}) as UnionFieldOptions;
+  const optional = resolveOptional(opts) as DetermineOptional<O>;
+
+  const parse = (value: unknown, ctx: ParseContext): FieldParseResult<FieldOutput<Members[number]>> => {
+    const failures: ParseIssue[][] = [];
+    for (const member of members) {
+      const coercions: CoercionRecord[] = [];
+      const pending: Array<Promise<ParseIssue[]>> = [];
+      const attempt = parseFieldValue(member, value, ctx.path, {
+        ...ctx,
+        coerce: shouldCoerce(opts, ctx),
+        coercions,
+        pending: ctx.pending ? pending : undefined
+      });
+      if (attempt.success) {
+        ctx.coercions?.push(...coercions);
+        ctx.pending?.push(...pending);
+        return attempt as FieldParseResult<FieldOutput<Members[number]>>;
+      }
+      failures.push(attempt.issues);
+    }
+
+    // Members that accepted the value's type got furthest, so the one with the fewest issues
+    // explains why the value was rejected.
+    const closest = failures
+      .filter((issues) => !issues.some((entry) => entry.code === 'invalid_type' && entry.path.length === ctx.path.length))
+      .sort((a, b) => a.length - b.length)[0];
+
+    return {
+      success: false,
+      issues: [
+        issue(
+          ctx.path,
+          'Value does not match any of the allowed types',
+          'invalid_union',
+          members.map((member) => member.kind).join(' | '),
+          value
+        ),
+        ...(closest ?? [])
+      ]
+    };
+  };
+
+  return {
+    kind: 'union',
+    description: opts.description,
+    optional,
+    nullable: opts.nullable ?? false,
+    hasDefault: false,
+    defaultValue: undefined,
+    parse,
+    toPrompt: (name) => {
+      const requirement = describeRequirement(optional, opts.nullable);
+      const kinds = members.map((member) => member.kind).join(' | ');
+      const description = opts.description ? ` - ${opts.description}` : '';
+      return `"${name}": ${kinds} (${requirement})${description}`;
+    },
+    options: opts,
+    members,
+    _optional: optional
+  } as WithNullable<O, UnionFieldDefinition<Members, DetermineOptional<O>>>;
+}
+
+export function discriminatedUnion<
+  const Key extends string,
+  const Variants extends Record<string, SchemaDefinition>,
+  const O extends DiscriminatedUnionFieldOptions = DiscriminatedUnionFieldOptions
+>(
+  discriminator: Key,
+  variants: Variants,
+  options?: O
+): WithNullable<O, DiscriminatedUnionFieldDefinition<Key, Variants, DetermineOptional<O>>> {
+  const opts = (options ?? {}) as DiscriminatedUnionFieldOptions;
+  const optional = resolveOptional(opts) as DetermineOptional<O>;
+  const tags = Object.keys(variants);
+
+  const resolvedVariants = Object.fromEntries(
+    tags.map((tag) => [tag, { [discriminator]: literal(tag), ...variants[tag] }])
+  ) as Record<keyof Variants & string, SchemaDefinition>;
+
+  const parse = (
+    value: unknown,
+    ctx: ParseContext
+  ): FieldParseResult<DiscriminatedUnionOutput<Key, Variants>> => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return {
+        success: false,
+        issues: [issue(ctx.path, 'Expected object value', 'invalid_type', 'object', value)]
+      };
+    }
+
+    const tag = (value as Record<string, unknown>)[discriminator];
+    const variant = typeof tag === 'string' && tags.includes(tag) ? resolvedVariants[tag] : undefined;
+    if (!variant) {
+      return {
+        success: false,
+        issues: [
+          issue(
+            appendPath(ctx.path, discriminator),
+            `Value must be one of: ${tags.join(', ')}`,
+            'invalid_enum_value',
+            tags.join(' | '),
+            tag
+          )
+        ]
+      };
+    }
+
+    const nested = parseDefinition(variant, value, ctx.path, {
+      ...ctx,
+      unknownKeys: opts.unknownKeys ?? ctx.unknownKeys,
+      coerce: shouldCoerce(opts, ctx)
+    });
+    if (nested.success) {
+      return { success: true, value: nested.data as DiscriminatedUnionOutput<Key, Variants> };
+    }
+    return { success: false, issues: nested.issues };
+  };
+
+  return {
+    kind: 'discriminatedUnion',
+    description: opts.description,
+    optional,
+    nullable: opts.nullable ?? false,
+    hasDefault: false,
+    defaultValue: undefined,
+    parse,
+    toPrompt: (name) => {
+      const requirement = describeRequirement(optional, opts.nullable);
+      const description = opts.description ? ` - ${opts.description}` : '';
+      return `"${name}": object (${requirement}, "${discriminator}": ${tags.map((tag) => `'${tag}'`).join(' | ')})${description}`;
+    },
+    options: opts,
+    discriminator,
+    variants: resolvedVariants,
+    _optional: optional
+  } as WithNullable<O, DiscriminatedUnionFieldDefinition<Key, Variants, DetermineOptional<O>>>;
+}
@@ -0,0 +1,630 @@
+import type { AnyFieldDefinition, BaseFieldOptions, JsonSchema, SchemaDefinition, TextFormat } from './types';
+import {
+  array,
+  boolean,
+  citation,
+  date,
+  dateRange,
+  discriminatedUnion,
+  duration,
+  entity,
+  enumType,
+  lazy,
+  literal,
+  md,
+  money,
+  named,
+  number,
+  object,
+  quantity,
+  record,
+  text,
+  union,
+  withConfidence
+} from './fields';
+import { isObjectField } from './typeGuards';
+import { parseFieldValue } from './validation';
+import { textFormats } from './internal';
+
+export interface JsonSchemaImportIssue {
+  // JSON pointer to the schema that could not be mapped, e.g. `#/properties/tags/items`.
+  schemaPath: string;
+  keyword?: string;
+  message: string;
+}
+
+export interface JsonSchemaImportResult {
+  definition: SchemaDefinition;
+  description?: string;
+  issues: JsonSchemaImportIssue[];
+}
+
+type JsonSchemaNode = Record<string, unknown>;
+
+// Tracks which keywords of a schema were understood, so everything else can be reported
+// instead of silently disappearing from the imported definition.
+interface SchemaReader {
+  node: JsonSchemaNode;
+  path: string;
+  used: Set<string>;
+}
+
+interface ImportState {
+  root: JsonSchemaNode;
+  issues: JsonSchemaImportIssue[];
+  defs: Map<string, AnyFieldDefinition>;
+  resolving: Set<string>;
+}
+
+interface FieldFlags {
+  optional?: boolean;
+  nullable?: boolean;
+  description?: string;
+}
+
+const ROOT_KEYWORDS = ['$schema', '$id', '$defs', 'definitions'];
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function isSchemaNode(value: unknown): value is JsonSchemaNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function pointer(path: string, ...segments: Array<string | number>): string {
+  return [path, ...segments.map((segment) => String(segment).replace(/~/g, '~0').replace(/\//g, '~1'))].join('/');
+}
+
+function report(state: ImportState, schemaPath: string, message: string, keyword?: string) {
+  state.issues.push(keyword ? { schemaPath, keyword, message } : { schemaPath, message });
+}
+
+function createReader(node: JsonSchemaNode, path: string, known: readonly string[] = []): SchemaReader {
+  return { node, path, used: new Set(known) };
+}
+
+function read<T = unknown>(reader: SchemaReader, key: string): T | undefined {
+  reader.used.add(key);
+  return reader.node[key] as T | undefined;
+}
+
+function reportUnused(state: ImportState, reader: SchemaReader) {
+  for (const key of Object.keys(reader.node)) {
+    if (!reader.used.has(key)) {
+      report(state, reader.path, `Unsupported keyword "${key}"`, key);
+    }
+  }
+}
+
+function compact<T extends object>(options: T): T {
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as T;
+}
+
+function baseOptions(flags: FieldFlags): BaseFieldOptions {
+  return compact({
+    description: flags.description,
+    optional: flags.optional || undefined,
+    nullable: flags.nullable || undefined
+  });
+}
+
+function isNullSchema(value: unknown): boolean {
+  return isSchemaNode(value) && value.type === 'null' && Object.keys(value).length === 1;
+}
+
+function typeOf(schema: unknown): unknown {
+  return isSchemaNode(schema) ? schema.type : undefined;
+}
+
+function propertiesOf(schema: JsonSchemaNode): Record<string, JsonSchemaNode> | undefined {
+  return isSchemaNode(schema.properties) ? (schema.properties as Record<string, JsonSchemaNode>) : undefined;
+}
+
+function hasExactKeys(properties: Record<string, JsonSchemaNode> | undefined, keys: string[]): boolean {
+  return properties !== undefined && Object.keys(properties).sort().join() === [...keys].sort().join();
+}
+
+// JSON Schema patterns use ECMA-262 syntax, but schemas written for other engines may not
+// compile, e.g. inline flags such as `(?i)`.
+function toRegExp(state: ImportState, reader: SchemaReader, source: string, keyword: string): RegExp | undefined {
+  try {
+    return new RegExp(source);
+  } catch {
+    report(state, reader.path, `Invalid regular expression "${source}"`, keyword);
+    return undefined;
+  }
+}
+
+function textFormatFor(format?: string, pattern?: string): TextFormat | undefined {
+  const formats = Object.keys(textFormats) as TextFormat[];
+  if (format) {
+    return formats.find((name) => textFormats[name].jsonSchemaFormat === format);
+  }
+  return pattern ? formats.find((name) => textFormats[name].pattern?.source === pattern) : undefined;
+}
+
+// JSON Schema doesn't require `default` to be valid against its own schema, so the default is
+// only kept when the imported field accepts it.
+function importDefault(
+  state: ImportState,
+  reader: SchemaReader,
+  build: (defaults: { default?: never }) => AnyFieldDefinition
+): AnyFieldDefinition {
+  const fallback = read(reader, 'default');
+  const field = build({});
+  if (fallback === undefined) return field;
+
+  if (!parseFieldValue(field, fallback, []).success) {
+    report(state, reader.path, `Default ${JSON.stringify(fallback)} does not match the schema`, 'default');
+    return field;
+  }
+  return build({ default: fallback as never });
+}
+
+function importString(state: ImportState, reader: SchemaReader, flags: FieldFlags): AnyFieldDefinition {
+  const base = baseOptions(flags);
+  const format = read<string>(reader, 'format');
+
+  if (format === 'markdown') {
+    const options = compact({
+      ...base,
+      description: flags.description === 'Markdown content' ? undefined : flags.description,
+      minLength: read<number>(reader, 'minLength'),
+      maxLength: read<number>(reader, 'maxLength')
+    });
+    return importDefault(state, reader, (defaults) => md({ ...options, ...defaults }));
+  }
+  if (format === 'date' || format === 'date-time') {
+    const options = compact({ ...base, format: format === 'date' ? ('date' as const) : undefined });
+    return importDefault(state, reader, (defaults) => date({ ...options, ...defaults }));
+  }
+  if (format === 'duration') {
+    return importDefault(state, reader, (defaults) => duration({ ...base, ...defaults }));
+  }
+
+  const entityType = flags.description?.match(/^Entity reference \((.+)\)$/)?.[1];
+  if (entityType && !format) {
+    const options = compact({ ...base, description: undefined });
+    return importDefault(state, reader, (defaults) => entity(entityType, { ...options, ...defaults }));
+  }
+
+  const pattern = read<string>(reader, 'pattern');
+  const preset = textFormatFor(format, pattern);
+  if (format && !preset) {
+    report(state, reader.path, `Unsupported string format "${format}"`, 'format');
+  }
+  const customPattern = pattern !== undefined && (!preset || textFormats[preset].pattern?.source !== pattern);
+  const options = compact({
+    ...base,
+    minLength: read<number>(reader, 'minLength'),
+    maxLength: read<number>(reader, 'maxLength'),
+    pattern: customPattern ? toRegExp(state, reader, pattern, 'pattern') : undefined,
+    format: preset
+  });
+  return importDefault(state, reader, (defaults) => text({ ...options, ...defaults }));
+}
+
+function importEnum(state: ImportState, reader: SchemaReader, values: unknown[], flags: FieldFlags): AnyFieldDefinition {
+  if (values.every((value): value is string => typeof value === 'string')) {
+    const generated = `One of: ${values.join(', ')}`;
+    const options = compact({
+      ...baseOptions(flags),
+      description: flags.description === generated ? undefined : flags.description
+    });
+    return importDefault(state, reader, (defaults) => enumType(values, { ...options, ...defaults }));
+  }
+
+  if (read(reader, 'default') !== undefined) {
+    report(state, reader.path, 'Defaults are only supported on string enums', 'default');
+  }
+  return union(
+    values.map((value) => literal(value as string | number | boolean)),
+    baseOptions(flags)
+  );
+}
+
+function importArray(state: ImportState, reader: SchemaReader, flags: FieldFlags): AnyFieldDefinition | undefined {
+  const items = read(reader, 'items');
+  if (items === undefined) {
+    report(state, reader.path, 'Arrays without "items" cannot be mapped', 'items');
+    return undefined;
+  }
+
+  const item = importField(state, items, pointer(reader.path, 'items'), {});
+  if (!item) return undefined;
+
+  const options = compact({
+    ...baseOptions(flags),
+    minItems: read<number>(reader, 'minItems'),
+    maxItems: read<number>(reader, 'maxItems')
+  });
+  return isObjectField(item) && !item.nullable && !item.description
+    ? array({ ...options, schema: item.shape })
+    : array(item, options);
+}
+
+function importShape(state: ImportState, reader: SchemaReader, omit?: string): SchemaDefinition {
+  const properties = propertiesOf(reader.node) ?? {};
+  const required = read<string[]>(reader, 'required') ?? [];
+  read(reader, 'properties');
+
+  const shape: SchemaDefinition = {};
+  for (const [key, schema] of Object.entries(properties)) {
+    if (key === omit) continue;
+    const field = importField(state, schema, pointer(reader.path, 'properties', key), {
+      optional: !required.includes(key)
+    });
+    if (field) {
+      shape[key] = field;
+    }
+  }
+
+  for (const key of required) {
+    if (!(key in properties)) {
+      report(state, reader.path, `Required property "${key}" is not defined`, 'required');
+    }
+  }
+
+  const additional = read(reader, 'additionalProperties');
+  if (additional !== undefined && typeof additional !== 'boolean') {
+    report(state, reader.path, 'Objects cannot mix "properties" with an "additionalProperties" schema', 'additionalProperties');
+  }
+  return shape;
+}
+
+// Reads a property of a known object shape like any other schema, so keywords the field cannot
+// keep are reported. Keywords the exporter writes with fixed values count as read when they match.
+function readProperty(reader: SchemaReader, key: string, exported: JsonSchemaNode = {}): SchemaReader {
+  const node = propertiesOf(reader.node)![key];
+  const property = createReader(node, pointer(reader.path, 'properties', key), ['type']);
+  Object.entries(exported).forEach(([keyword, value]) => {
+    if (node[keyword] === value) property.used.add(keyword);
+  });
+  return property;
+}
+
+// The exporter writes these fields as fixed object shapes. An object is only recognised as one
+// when its properties have the exported types and it requires the exported keys; anything else
+// is imported as a plain object.
+function importKnownObject(state: ImportState, reader: SchemaReader, flags: FieldFlags): AnyFieldDefinition | undefined {
+  const properties = propertiesOf(reader.node);
+  const base = baseOptions(flags);
+  const required = reader.node.required;
+  const matches = (types: Record<string, string | undefined>, ...requiredKeys: string[][]) =>
+    hasExactKeys(properties, Object.keys(types)) &&
+    Object.entries(types).every(([key, type]) => type === undefined || typeOf(properties![key]) === type) &&
+    Array.isArray(required) &&
+    requiredKeys.some((keys) => [...required].sort().join() === [...keys].sort().join()) &&
+    (reader.node.additionalProperties === undefined || reader.node.additionalProperties === false);
+  const finish = <Field extends AnyFieldDefinition | undefined>(field: Field, propertyReaders: SchemaReader[]) => {
+    ['properties', 'required', 'additionalProperties'].forEach((key) => read(reader, key));
+    propertyReaders.forEach((property) => reportUnused(state, property));
+    return field;
+  };
+
+  if (matches({ start: 'string', end: 'string' }, ['start', 'end'])) {
+    const start = readProperty(reader, 'start');
+    const end = readProperty(reader, 'end', { description: 'Inclusive, not before start' });
+    const format = read(start, 'format');
+    if ((format === 'date' || format === 'date-time') && read(end, 'format') === format) {
+      return finish(dateRange({ ...base, format }), [start, end]);
+    }
+  }
+
+  if (matches({ amount: 'number', currency: 'string' }, ['amount', 'currency'])) {
+    const amount = readProperty(reader, 'amount');
+    const currency = readProperty(reader, 'currency', { pattern: '^[A-Z]{3}$', description: 'ISO 4217 currency code' });
+    return finish(
+      money(
+        compact({
+          ...base,
+          min: read<number>(amount, 'minimum'),
+          max: read<number>(amount, 'maximum'),
+          currencies: read<string[]>(currency, 'enum')
+        })
+      ),
+      [amount, currency]
+    );
+  }
+
+  if (matches({ value: 'number', unit: 'string' }, ['value', 'unit'])) {
+    const value = readProperty(reader, 'value');
+    const unit = readProperty(reader, 'unit');
+    return finish(
+      quantity(
+        compact({
+          ...base,
+          min: read<number>(value, 'minimum'),
+          max: read<number>(value, 'maximum'),
+          units: read<string[]>(unit, 'enum')
+        })
+      ),
+      [value, unit]
+    );
+  }
+
+  if (matches({ quote: 'string', start: 'integer', end: 'integer' }, ['quote'], ['quote', 'start', 'end'])) {
+    const propertyReaders = [
+      readProperty(reader, 'quote', { description: 'Exact quote from the source text' }),
+      readProperty(reader, 'start', { minimum: 0, description: 'Character offset where the quote starts' }),
+      readProperty(reader, 'end', { minimum: 0, description: 'Character offset where the quote ends' })
+    ];
+    const requireOffsets = (required as string[]).includes('start') || undefined;
+    return finish(citation(compact({ ...base, requireOffsets })), propertyReaders);
+  }
+
+  if (matches({ value: undefined, confidence: 'number' }, ['value', 'confidence'])) {
+    const confidence = readProperty(reader, 'confidence', {
+      minimum: 0,
+      maximum: 1,
+      description: 'How certain the value is, from 0 (guess) to 1 (stated explicitly)'
+    });
+    const inner = importField(state, properties!.value, pointer(reader.path, 'properties', 'value'), flags);
+    return finish(inner && withConfidence(inner), [confidence]);
+  }
+
+  return undefined;
+}
+
+function importObject(state: ImportState, reader: SchemaReader, flags: FieldFlags): AnyFieldDefinition | undefined {
+  const known = importKnownObject(state, reader, flags);
+  if (known) return known;
+  if (reader.used.has('properties')) return undefined;
+
+  if (reader.node.properties !== undefined) {
+    return object({ ...baseOptions(flags), schema: importShape(state, reader) });
+  }
+
+  const patterns = read<Record<string, unknown>>(reader, 'patternProperties');
+  const additional = read(reader, 'additionalProperties');
+  if (patterns !== undefined) {
+    const entries = Object.entries(patterns);
+    if (entries.length !== 1) {
+      report(state, reader.path, 'Only a single "patternProperties" entry can be mapped', 'patternProperties');
+      return undefined;
+    }
+    const [source, schema] = entries[0];
+    const keyPattern = toRegExp(state, reader, source, 'patternProperties');
+    const value = importField(state, schema, pointer(reader.path, 'patternProperties', source), {});
+    return keyPattern && value && record(value, { ...baseOptions(flags), keyPattern });
+  }
+
+  if (isSchemaNode(additional)) {
+    const value = importField(state, additional, pointer(reader.path, 'additionalProperties'), {});
+    return value && record(value, baseOptions(flags));
+  }
+
+  report(state, reader.path, 'Objects without "properties" cannot be mapped', 'properties');
+  return undefined;
+}
+
+function discriminatorOf(variants: unknown[]): string | undefined {
+  if (!variants.every((variant) => isSchemaNode(variant) && propertiesOf(variant))) return undefined;
+  const [first, ...rest] = variants.map((variant) => propertiesOf(variant as JsonSchemaNode)!);
+  return Object.keys(first).find((key) => {
+    const tags = [first, ...rest].map((properties) => properties[key]?.const);
+    return tags.every((tag) => typeof tag === 'string') && new Set(tags).size === tags.length;
+  });
+}
+
+function importVariants(
+  state: ImportState,
+  reader: SchemaReader,
+  keyword: 'anyOf' | 'oneOf',
+  variants: unknown[],
+  flags: FieldFlags
+): AnyFieldDefinition | undefined {
+  const base = baseOptions(flags);
+
+  if (variants.every((variant) => isSchemaNode(variant) && typeof variant.const === 'string')) {
+    const nodes = variants as JsonSchemaNode[];
+    const labels = compact(
+      Object.fromEntries(nodes.map((variant) => [variant.const as string, variant.description as string | undefined]))
+    );
+    nodes.forEach((variant, index) => {
+      const keys = Object.keys(variant).filter((key) => !['const', 'description', 'type'].includes(key));
+      keys.forEach((key) => report(state, pointer(reader.path, keyword, index), `Unsupported keyword "${key}"`, key));
+    });
+    return enumType(
+      nodes.map((variant) => variant.const as string),
+      Object.keys(labels).length > 0 ? { ...base, labels } : base
+    );
+  }
+
+  const discriminator = discriminatorOf(variants);
+  if (discriminator) {
+    const shapes = Object.fromEntries(
+      (variants as JsonSchemaNode[]).map((variant, index) => {
+        const variantReader = createReader(variant, pointer(reader.path, keyword, index), ['type']);
+        const shape = importShape(state, variantReader, discriminator);
+        reportUnused(state, variantReader);
+        return [propertiesOf(variant)![discriminator].const as string, shape];
+      })
+    );
+    return discriminatedUnion(discriminator, shapes, base);
+  }
+
+  const members = variants
+    .map((variant, index) => importField(state, variant, pointer(reader.path, keyword, index), {}))
+    .filter((member): member is AnyFieldDefinition => member !== undefined);
+  return members.length > 0 ? union(members, base) : undefined;
+}
+
+function refTarget(state: ImportState, ref: string): { keyword: string; name: string; schema: unknown } | undefined {
+  const match = /^#\/(\$defs|definitions)\/([^/]+)$/.exec(ref);
+  const defs = match ? state.root[match[1]] : undefined;
+  const target = match && isSchemaNode(defs) ? defs[match[2]] : undefined;
+  return match && target !== undefined ? { keyword: match[1], name: match[2], schema: target } : undefined;
+}
+
+// Definitions that only reference each other never reach a concrete schema, and a lazy field
+// built from them would resolve to itself forever.
+function isRefCycle(state: ImportState, ref: string): boolean {
+  const seen = new Set<string>();
+  let current = refTarget(state, ref);
+  while (current && isSchemaNode(current.schema) && typeof current.schema.$ref === 'string') {
+    const key = `${current.keyword}/${current.name}`;
+    if (seen.has(key)) return true;
+    seen.add(key);
+    current = refTarget(state, current.schema.$ref);
+  }
+  return false;
+}
+
+function importRef(state: ImportState, reader: SchemaReader, ref: string, flags: FieldFlags): AnyFieldDefinition | undefined {
+  const target = refTarget(state, ref);
+  if (!target || isRefCycle(state, ref)) {
+    report(state, reader.path, `Cannot resolve reference "${ref}"`, '$ref');
+    return undefined;
+  }
+
+  const { keyword, name } = target;
+  const resolved = state.defs.get(name);
+  if (resolved && isObjectField(resolved)) {
+    return object({ ...baseOptions(flags), schema: resolved.shape });
+  }
+
+  const options = NAME_PATTERN.test(name) ? { ...baseOptions(flags), name } : baseOptions(flags);
+  if (resolved || state.resolving.has(name)) {
+    return lazy(() => state.defs.get(name)!, options);
+  }
+
+  state.resolving.add(name);
+  const field = importField(state, target.schema, pointer('#', keyword, name), {});
+  state.resolving.delete(name);
+  if (!field) return undefined;
+
+  if (isObjectField(field)) {
+    const shape = NAME_PATTERN.test(name) ? named(name, field.shape) : field.shape;
+    state.defs.set(name, object({ schema: shape }));
+    return object({ ...baseOptions(flags), schema: shape });
+  }
+
+  state.defs.set(name, field);
+  return lazy(() => field, options);
+}
+
+function importField(
+  state: ImportState,
+  schema: unknown,
+  path: string,
+  flags: FieldFlags,
+  known: readonly string[] = []
+): AnyFieldDefinition | undefined {
+  if (!isSchemaNode(schema)) {
+    report(state, path, 'Expected a schema object');
+    return undefined;
+  }
+
+  const reader = createReader(schema, path, known);
+  const field = importNode(state, reader, {
+    ...flags,
+    description: read<string>(reader, 'description') ?? read<string>(reader, 'title') ?? flags.description
+  });
+  reportUnused(state, reader);
+  return field;
+}
+
+function importNode(state: ImportState, reader: SchemaReader, flags: FieldFlags): AnyFieldDefinition | undefined {
+  const keyword = reader.node.anyOf !== undefined ? 'anyOf' : reader.node.oneOf !== undefined ? 'oneOf' : undefined;
+  if (keyword) {
+    const variants = read(reader, keyword);
+    if (!Array.isArray(variants)) {
+      report(state, reader.path, `"${keyword}" must be an array`, keyword);
+      return undefined;
+    }
+    const members = variants.filter((variant) => !isNullSchema(variant));
+    const nullable = flags.nullable || members.length < variants.length;
+    if (members.length === 0) {
+      report(state, reader.path, `"${keyword}" has no members besides null`, keyword);
+      return undefined;
+    }
+    if (members.length === 1) {
+      return importField(state, members[0], pointer(reader.path, keyword, variants.indexOf(members[0])), {
+        ...flags,
+        nullable
+      });
+    }
+    return importVariants(state, reader, keyword, members, { ...flags, nullable });
+  }
+
+  const ref = read<string>(reader, '$ref');
+  if (ref !== undefined) {
+    return importRef(state, reader, ref, flags);
+  }
+
+  const declared = read<string | string[]>(reader, 'type');
+  const types = (Array.isArray(declared) ? declared : declared === undefined ? [] : [declared]).filter(
+    (type) => type !== 'null'
+  );
+  const nullable = flags.nullable || (Array.isArray(declared) && declared.includes('null'));
+  const enumValues = read(reader, 'enum');
+  if (enumValues !== undefined && !Array.isArray(enumValues)) {
+    report(state, reader.path, '"enum" must be an array', 'enum');
+    return undefined;
+  }
+  const values = enumValues?.filter((value) => value !== null);
+  const resolved: FieldFlags = { ...flags, nullable: nullable || values?.length !== enumValues?.length };
+
+  if (types.length > 1) {
+    report(state, reader.path, `Multiple types (${types.join(', ')}) cannot be mapped`, 'type');
+    return undefined;
+  }
+
+  const constant = read(reader, 'const');
+  if (constant !== undefined) {
+    if (['string', 'number', 'boolean'].includes(typeof constant)) {
+      return literal(constant as string | number | boolean, baseOptions(resolved));
+    }
+    report(state, reader.path, 'Only string, number and boolean constants can be mapped', 'const');
+    return undefined;
+  }
+
+  if (values) {
+    if (values.length === 0) {
+      report(state, reader.path, '"enum" has no values besides null', 'enum');
+      return undefined;
+    }
+    return importEnum(state, reader, values, resolved);
+  }
+
+  switch (types[0]) {
+    case 'string':
+      return importString(state, reader, resolved);
+    case 'number':
+    case 'integer': {
+      const options = compact({
+        ...baseOptions(resolved),
+        min: read<number>(reader, 'minimum'),
+        max: read<number>(reader, 'maximum'),
+        precision: types[0] === 'integer' ? 0 : undefined
+      });
+      return importDefault(state, reader, (defaults) => number({ ...options, ...defaults }));
+    }
+    case 'boolean':
+      return importDefault(state, reader, (defaults) => boolean({ ...baseOptions(resolved), ...defaults }));
+    case 'array':
+      return importArray(state, reader, resolved);
+    case 'object':
+      return importObject(state, reader, resolved);
+    case undefined:
+      report(state, reader.path, 'Schemas without a "type" cannot be mapped', 'type');
+      return undefined;
+    default:
+      report(state, reader.path, `Type "${types[0]}" cannot be mapped`, 'type');
+      return undefined;
+  }
+}
+
+export function fromJsonSchema(jsonSchema: JsonSchema | Record<string, unknown>): JsonSchemaImportResult {
+  const root = jsonSchema as JsonSchemaNode;
+  const state: ImportState = { root, issues: [], defs: new Map(), resolving: new Set() };
+  const field = importField(state, root, '#', {}, ROOT_KEYWORDS);
+
+  if (!field || !isObjectField(field)) {
+    if (field) {
+      report(state, '#', 'The root schema must be an object with properties', 'type');
+    }
+    return { definition: {}, issues: state.issues };
+  }
+
+  return compact({ definition: field.shape, description: field.description, issues: state.issues });
+}
@@ -1,4 +1,14 @@
-import type { DateFieldOptions, ParseIssue } from './types';
+import type {
+  AnyFieldDefinition,
+  DateFieldOptions,
+  DateRange,
+  DiscriminatedUnionFieldDefinition,
+  ParseIssue,
+  SchemaDefinition,
+  TextFormat,
+  UnionFieldDefinition
+} from './types';
+import { isConfidenceField, isLazyField } from './typeGuards';
 import { issue } from './utils';
 
 export function determineNumberPrecision(value: number): number {
@@ -6,6 +16,313 @@ export function determineNumberPrecision(value: number): number {
   return decimals ? decimals.length : 0;
 }
 
+const TRUE_STRINGS = ['true', 'yes', 'y', 'on', '1'];
+const FALSE_STRINGS = ['false', 'no', 'n', 'off', '0'];
+
+export function coerceNumber(value: unknown): number | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(trimmed)) return undefined;
+  return Number(trimmed);
+}
+
+export function coerceBoolean(value: unknown): boolean | undefined {
+  if (value === 1 || value === 0) return value === 1;
+  if (typeof value !== 'string') return undefined;
+  const normalized = value.trim().toLowerCase();
+  if (TRUE_STRINGS.includes(normalized)) return true;
+  if (FALSE_STRINGS.includes(normalized)) return false;
+  return undefined;
+}
+
+export function coerceEnumValue<Values extends readonly string[]>(
+  value: string,
+  values: Values,
+  aliases?: Record<string, Values[number]>
+): Values[number] | undefined {
+  const normalized = value.trim().toLowerCase();
+  const match = values.find((candidate) => candidate.toLowerCase() === normalized);
+  if (match !== undefined) return match;
+  if (!aliases) return undefined;
+  const alias = Object.keys(aliases).find((key) => key.toLowerCase() === normalized);
+  return alias !== undefined ? aliases[alias] : undefined;
+}
+
+export interface TextFormatPreset {
+  label: string;
+  hint: string;
+  jsonSchemaFormat?: string;
+  pattern?: RegExp;
+  inputType: string;
+  validate(value: string): boolean;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,}$/;
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export const textFormats: Record<TextFormat, TextFormatPreset> = {
+  email: {
+    label: 'email address',
+    hint: 'email address',
+    jsonSchemaFormat: 'email',
+    inputType: 'email',
+    validate: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)
+  },
+  url: {
+    label: 'URL',
+    hint: 'absolute http(s) URL',
+    jsonSchemaFormat: 'uri',
+    inputType: 'url',
+    validate: isHttpUrl
+  },
+  uuid: {
+    label: 'UUID',
+    hint: 'UUID',
+    jsonSchemaFormat: 'uuid',
+    inputType: 'text',
+    validate: (value) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)
+  },
+  phone: {
+    label: 'phone number',
+    hint: 'phone number, international format (+14155550123)',
+    pattern: PHONE_PATTERN,
+    inputType: 'tel',
+    validate: (value) => {
+      const digits = value.replace(/\D/g, '').length;
+      return PHONE_PATTERN.test(value) && digits >= 7 && digits <= 15;
+    }
+  },
+  'hex-color': {
+    label: 'hex color',
+    hint: 'hex color (#RRGGBB)',
+    pattern: HEX_COLOR_PATTERN,
+    // `type="color"` only holds lowercase #rrggbb and would rewrite short or alpha values.
+    inputType: 'text',
+    validate: (value) => HEX_COLOR_PATTERN.test(value)
+  },
+  slug: {
+    label: 'slug',
+    hint: 'slug (lowercase-words-with-hyphens)',
+    pattern: SLUG_PATTERN,
+    inputType: 'text',
+    validate: (value) => SLUG_PATTERN.test(value)
+  }
+};
+
+function normalizeWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+export function quoteMatches(quote: string, excerpt: string): boolean {
+  return normalizeWhitespace(quote) === normalizeWhitespace(excerpt);
+}
+
+// Whitespace runs in the quote match any whitespace run in the source, since models
+// rarely reproduce line breaks and indentation exactly.
+export function locateQuote(source: string, quote: string): { start: number; end: number } | undefined {
+  const words = quote.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return undefined;
+  const pattern = new RegExp(words.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+'));
+  const match = pattern.exec(source);
+  return match ? { start: match.index, end: match.index + match[0].length } : undefined;
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+  '₩': 'KRW'
+};
+
+// Powers of ten, applied by shifting the exponent of the decimal string so "$4.1m" stays exact.
+const MAGNITUDES: Record<string, number> = { k: 3, m: 6, mm: 6, b: 9, bn: 9 };
+
+let isoCurrencies: Set<string> | undefined;
+
+function isCurrencyCode(code: string, currencies?: readonly string[]): boolean {
+  if (currencies?.includes(code)) return true;
+  if (!isoCurrencies) {
+    const supportedValuesOf = (Intl as { supportedValuesOf?: (key: 'currency') => string[] }).supportedValuesOf;
+    isoCurrencies = new Set(supportedValuesOf ? supportedValuesOf('currency') : Object.values(CURRENCY_SYMBOLS));
+  }
+  return isoCurrencies.has(code);
+}
+
+const MONEY_PATTERN =
+  /^(?:([A-Za-z]{3})\s*|([$€£¥₹₩]))?\s*([-+]?(?:\d[\d,]*(?:\.\d+)?|\.\d+))\s*(k|mm|m|bn|b)?\b\s*(.*)$/i;
+
+// Reads strings such as "$12k ARR", "12,000 USD", "EUR 3.5m" or "€1.2bn". A leading or trailing code
+// only counts as the currency when it is one of `currencies` or an ISO 4217 code, so "12 ARR" and
+// "FOO 5" are left alone.
+export function parseMoneyString(
+  value: string,
+  currencies?: readonly string[]
+): { amount: number; currency: string } | undefined {
+  const match = MONEY_PATTERN.exec(value.trim());
+  if (!match) return undefined;
+
+  const [, prefixCode, symbol, digits, magnitude, tail] = match;
+  if (prefixCode && !isCurrencyCode(prefixCode.toUpperCase(), currencies)) return undefined;
+  let currency = prefixCode?.toUpperCase() ?? (symbol ? CURRENCY_SYMBOLS[symbol] : undefined);
+  if (!currency && /^[A-Za-z]{3}$/.test(tail) && isCurrencyCode(tail.toUpperCase(), currencies)) {
+    currency = tail.toUpperCase();
+  }
+
+  const exponent = magnitude ? MAGNITUDES[magnitude.toLowerCase()] : 0;
+  const amount = Number(`${digits.replace(/,/g, '')}e${exponent}`);
+  return currency && Number.isFinite(amount) ? { amount, currency } : undefined;
+}
+
+// Reads strings such as "12 kg", "3.5km" or "1,200 hours".
+export function parseQuantityString(value: string): { value: number; unit: string } | undefined {
+  const match = /^([-+]?\d[\d,]*(?:\.\d+)?|[-+]?\.\d+)\s*(\S.*)$/.exec(value.trim());
+  if (!match) return undefined;
+  const amount = Number(match[1].replace(/,/g, ''));
+  return Number.isFinite(amount) ? { value: amount, unit: match[2].trim() } : undefined;
+}
+
+export function formatMoney(amount: number, currency: string, locale?: string): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${new Intl.NumberFormat(locale).format(amount)} ${currency}`;
+  }
+}
+
+export function formatQuantity(value: number, unit: string, locale?: string): string {
+  return `${new Intl.NumberFormat(locale).format(value)} ${unit}`;
+}
+
+const DURATION_PATTERN =
+  /^P(?!$)(?:(\d+(?:\.\d+)?)Y)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?=\d)(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+
+const DURATION_UNITS = [
+  { designator: 'Y', time: false, seconds: 365 * 86400, label: 'year', pattern: /^(?:y|yrs?|years?)$/ },
+  { designator: 'M', time: false, seconds: 30 * 86400, label: 'month', pattern: /^(?:mos?|months?)$/ },
+  { designator: 'W', time: false, seconds: 7 * 86400, label: 'week', pattern: /^(?:w|wks?|weeks?)$/ },
+  { designator: 'D', time: false, seconds: 86400, label: 'day', pattern: /^(?:d|days?)$/ },
+  { designator: 'H', time: true, seconds: 3600, label: 'hour', pattern: /^(?:h|hrs?|hours?)$/ },
+  { designator: 'M', time: true, seconds: 60, label: 'minute', pattern: /^(?:m|mins?|minutes?)$/ },
+  { designator: 'S', time: true, seconds: 1, label: 'second', pattern: /^(?:s|secs?|seconds?)$/ }
+] as const;
+
+function durationParts(value: string): number[] | undefined {
+  const match = DURATION_PATTERN.exec(value);
+  return match ? match.slice(1).map((part) => (part ? Number(part) : 0)) : undefined;
+}
+
+export function isIsoDuration(value: string): boolean {
+  return DURATION_PATTERN.test(value);
+}
+
+// Months and years have no fixed length; they count as 30 and 365 days when comparing.
+export function durationToSeconds(value: string): number | undefined {
+  return durationParts(value)?.reduce((total, amount, index) => total + amount * DURATION_UNITS[index].seconds, 0);
+}
+
+// Reads strings such as "45 minutes", "1h 30m" or "2 weeks and 3 days".
+export function parseDurationString(value: string): string | undefined {
+  const amounts: number[] = DURATION_UNITS.map(() => 0);
+  const rest = value
+    .trim()
+    .toLowerCase()
+    .replace(/(\d+(?:\.\d+)?)\s*([a-z]+)/g, (token, amount: string, unit: string) => {
+      const index = DURATION_UNITS.findIndex((entry) => entry.pattern.test(unit));
+      if (index === -1) return token;
+      amounts[index] += Number(amount);
+      return '';
+    });
+
+  if (!/^(?:[\s,]|and)*$/.test(rest) || amounts.every((amount) => amount === 0)) return undefined;
+
+  const date = DURATION_UNITS.map((unit, index) => (!unit.time && amounts[index] ? `${amounts[index]}${unit.designator}` : '')).join('');
+  const time = DURATION_UNITS.map((unit, index) => (unit.time && amounts[index] ? `${amounts[index]}${unit.designator}` : '')).join('');
+  return `P${date}${time ? `T${time}` : ''}`;
+}
+
+export function formatDuration(value: string): string {
+  const parts = durationParts(value);
+  if (!parts) return value;
+  const labels = parts.flatMap((amount, index) =>
+    amount ? [`${amount} ${DURATION_UNITS[index].label}${amount === 1 ? '' : 's'}`] : []
+  );
+  return labels.length > 0 ? labels.join(' ') : '0 seconds';
+}
+
+function utcDay(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+// Reads periods such as "Q3 2025", "2025", "2025-03" and intervals such as
+// "2025-01-01/2025-03-31" or "2025-01-01 to 2025-03-31". Ends are inclusive: the last
+// day of the period, or its last millisecond for date-time ranges.
+export function parseDateRangeString(value: string, format: 'date' | 'date-time'): DateRange | undefined {
+  const trimmed = value.trim();
+  const period = (startDate: Date, nextStart: Date): DateRange => ({
+    start: startDate,
+    end: new Date(nextStart.getTime() - (format === 'date' ? 86400000 : 1))
+  });
+
+  const quarter = /^(?:Q([1-4])\s*[-/ ]?\s*(\d{4})|(\d{4})\s*[-/ ]?\s*Q([1-4]))$/i.exec(trimmed);
+  if (quarter) {
+    const year = Number(quarter[2] ?? quarter[3]);
+    const month = (Number(quarter[1] ?? quarter[4]) - 1) * 3;
+    return period(utcDay(year, month, 1), utcDay(year, month + 3, 1));
+  }
+
+  const yearMonth = /^(\d{4})(?:-(\d{2}))?$/.exec(trimmed);
+  if (yearMonth) {
+    const year = Number(yearMonth[1]);
+    if (!yearMonth[2]) return period(utcDay(year, 0, 1), utcDay(year + 1, 0, 1));
+    const month = Number(yearMonth[2]) - 1;
+    return month < 12 ? period(utcDay(year, month, 1), utcDay(year, month + 1, 1)) : undefined;
+  }
+
+  const bounds = trimmed.split(/\s*\/\s*|\s+(?:to|until|through|[-–—])\s+|\s*[–—]\s*/i);
+  if (bounds.length !== 2) return undefined;
+  const [start, end] = bounds.map(parseIsoBound);
+  return start && end ? { start, end } : undefined;
+}
+
+const ISO_BOUND_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// Only ISO dates and date-times are read, so engine-specific formats such as "March 5" are
+// rejected and impossible days such as 2025-02-30 don't roll over into the next month.
+function parseIsoBound(bound: string): Date | undefined {
+  const match = ISO_BOUND_PATTERN.exec(bound);
+  if (!match) return undefined;
+  const [year, month, day] = match.slice(1, 4).map(Number);
+  const calendar = utcDay(year, month - 1, day);
+  if (calendar.getUTCMonth() !== month - 1 || calendar.getUTCDate() !== day) return undefined;
+  const date = new Date(bound);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+type EnumLabels = Partial<Record<string, string>>;
+
+export function enumLabel(options: { labels?: EnumLabels }, value: string): string {
+  return options.labels?.[value] ?? value;
+}
+
+export function describeEnumLabels(values: readonly string[], options: { labels?: EnumLabels }): string | undefined {
+  const labelled = values.filter((value) => enumLabel(options, value) !== value);
+  if (labelled.length === 0) return undefined;
+  return labelled.map((value) => `${value} = ${enumLabel(options, value)}`).join('; ');
+}
+
 export function determineDate(
   value: unknown,
   options: DateFieldOptions
@@ -35,3 +352,56 @@ export function determineDate(
       issue(path, 'Invalid date value. Expected ISO string, unix timestamp, or Date instance.', 'invalid_date', undefined, value)
   };
 }
+
+// Names given with `named()`. Keyed by the definition object so that every field built
+// from the same shape resolves to the same name.
+const definitionNames = new WeakMap<SchemaDefinition, string>();
+
+export function setDefinitionName(definition: SchemaDefinition, name: string): void {
+  definitionNames.set(definition, name);
+}
+
+export function getDefinitionName(definition: SchemaDefinition): string | undefined {
+  return definitionNames.get(definition);
+}
+
+export function uniqueName(base: string, taken: Iterable<string>): string {
+  const names = new Set(taken);
+  let name = base;
+  for (let suffix = 2; names.has(name); suffix += 1) {
+    name = `${base}${suffix}`;
+  }
+  return name;
+}
+
+export function resolveLazy(field: AnyFieldDefinition): AnyFieldDefinition {
+  let current = field;
+  while (isLazyField(current)) {
+    current = current.resolve();
+  }
+  return current;
+}
+
+// Lazy and confidence fields hold data shaped like the field they wrap, so walkers over
+// parsed data continue with that field.
+export function wrappedField(field: AnyFieldDefinition): AnyFieldDefinition | undefined {
+  if (isLazyField(field)) return field.resolve();
+  if (isConfidenceField(field)) return field.inner;
+  return undefined;
+}
+
+export function matchUnionMember(
+  field: UnionFieldDefinition<readonly AnyFieldDefinition[], boolean>,
+  value: unknown
+): AnyFieldDefinition | undefined {
+  return field.members.find((member) => member.parse(value, { path: [] }).success);
+}
+
+export function selectVariant(
+  field: DiscriminatedUnionFieldDefinition<string, Record<string, any>, boolean>,
+  value: unknown
+): SchemaDefinition | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const tag = (value as Record<string, unknown>)[field.discriminator];
+  return typeof tag === 'string' ? field.variants[tag] : undefined;
+}
@@ -0,0 +1,864 @@
+import type { MarkdownFieldOptions, ParseIssue } from './types';
+import { issue } from './utils';
+
+export type MarkdownNodeType =
+  | 'root'
+  | 'heading'
+  | 'paragraph'
+  | 'list'
+  | 'listItem'
+  | 'blockquote'
+  | 'code'
+  | 'html'
+  | 'thematicBreak'
+  | 'definition'
+  | 'text'
+  | 'strong'
+  | 'emphasis'
+  | 'inlineCode'
+  | 'link'
+  | 'image'
+  | 'mention';
+
+// Offsets point into the original markdown string; `end` is exclusive. Container nodes also
+// record where their content starts and ends so syntax can be unwrapped without losing text.
+export interface MarkdownNode {
+  type: MarkdownNodeType;
+  start: number;
+  end: number;
+  contentStart?: number;
+  contentEnd?: number;
+  depth?: number;
+  ordered?: boolean;
+  url?: string;
+  value?: string;
+  entityType?: string;
+  id?: string;
+  children: MarkdownNode[];
+}
+
+export interface MarkdownParseOptions {
+  mentions?: boolean;
+}
+
+interface Line {
+  start: number;
+  end: number;
+}
+
+// Reference definitions may come after the links that use them, so inline content is only
+// parsed once every block has been read.
+interface ParseState {
+  options: MarkdownParseOptions;
+  definitions: Map<string, string>;
+  inline: Array<() => void>;
+}
+
+type AllowedMarkdown = NonNullable<MarkdownFieldOptions['allowedMarkdown']>;
+
+const FENCE_OPEN = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+|$)/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE = /^( {0,3})>[ \t]?/;
+const LIST_MARKER = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)/;
+const HTML_BLOCK = /^ {0,3}<(?:\/?[A-Za-z][A-Za-z0-9-]*(?=[\s/>]|$)|!--)/;
+const INDENTED_CODE = /^(?: {4}|\t)/;
+const AUTOLINK = /^<([A-Za-z][A-Za-z0-9+.-]{1,31}:[^\s<>]*|[^\s<>@]+@[^\s<>@]+\.[^\s<>@]+)>/;
+const BARE_URL = /^(?:https?:\/\/|www\.)[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*[^\s<]*/i;
+const DEFINITION = /^ {0,3}\[((?:[^\\[\]]|\\.)+)\]:[ \t]*(<[^<>]*>|\S+)(?:[ \t]+(?:"[^"]*"|'[^']*'|\([^()]*\)))?[ \t]*$/;
+const INLINE_HTML = /^(?:<\/?[A-Za-z][A-Za-z0-9-]*(?:\s+[^<>]*)?\/?>|<!--[\s\S]*?-->)/;
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+const MENTION_TARGET = /^([A-Za-z][\w-]*):(\S+)$/;
+
+function node(type: MarkdownNodeType, start: number, end: number, extra: Partial<MarkdownNode> = {}): MarkdownNode {
+  return { type, start, end, children: [], ...extra };
+}
+
+function splitLines(source: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  for (;;) {
+    const newline = source.indexOf('\n', start);
+    const end = newline === -1 ? source.length : newline;
+    lines.push({ start, end: source[end - 1] === '\r' ? end - 1 : end });
+    if (newline === -1) return lines;
+    start = newline + 1;
+  }
+}
+
+function indentOf(text: string): number {
+  return text.length - text.trimStart().length;
+}
+
+function startsBlock(text: string): boolean {
+  return (
+    FENCE_OPEN.test(text) ||
+    ATX_HEADING.test(text) ||
+    THEMATIC_BREAK.test(text) ||
+    BLOCKQUOTE.test(text) ||
+    HTML_BLOCK.test(text) ||
+    interruptsWithList(text)
+  );
+}
+
+// Only a bullet or a list starting at 1 may interrupt a paragraph, and never with an empty item,
+// so wrapped prose such as "2019. great year" stays part of the paragraph.
+function interruptsWithList(text: string): boolean {
+  const marker = LIST_MARKER.exec(text);
+  if (!marker || text.slice(marker[0].length).trim() === '') return false;
+  return !/\d/.test(marker[2]) || Number.parseInt(marker[2], 10) === 1;
+}
+
+function sameListType(a: string, b: string): boolean {
+  const ordered = /\d/.test(a);
+  return ordered === /\d/.test(b) && (ordered ? a.slice(-1) === b.slice(-1) : a === b);
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function deferInline(source: string, lines: Line[], state: ParseState): MarkdownNode[] {
+  const children: MarkdownNode[] = [];
+  state.inline.push(() => children.push(...parseInline(source, lines, state)));
+  return children;
+}
+
+function parseBlocks(source: string, lines: Line[], state: ParseState): MarkdownNode[] {
+  const blocks: MarkdownNode[] = [];
+  const textOf = (line: Line) => source.slice(line.start, line.end);
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const text = textOf(line);
+    const lineStart = line.start + indentOf(text);
+
+    if (text.trim() === '') {
+      index += 1;
+      continue;
+    }
+
+    const fence = FENCE_OPEN.exec(text);
+    if (fence && !(fence[2][0] === '`' && fence[3].includes('`'))) {
+      let close = index + 1;
+      while (close < lines.length) {
+        const candidate = /^ {0,3}(`{3,}|~{3,})[ \t]*$/.exec(textOf(lines[close]));
+        if (candidate && candidate[1][0] === fence[2][0] && candidate[1].length >= fence[2].length) break;
+        close += 1;
+      }
+      const body = lines.slice(index + 1, close).map((entry) => {
+        const content = textOf(entry);
+        return content.slice(Math.min(fence[1].length, indentOf(content)));
+      });
+      const last = lines[Math.min(close, lines.length - 1)];
+      blocks.push(node('code', lineStart, last.end, { value: body.join('\n') }));
+      index = close + 1;
+      continue;
+    }
+
+    const heading = ATX_HEADING.exec(text);
+    if (heading) {
+      const contentStart = line.start + heading[0].length;
+      const content = source.slice(contentStart, line.end).replace(/(?:^|[ \t]+)#+[ \t]*$/, '').trimEnd();
+      blocks.push(
+        node('heading', lineStart, line.end, {
+          depth: heading[1].length,
+          contentStart,
+          contentEnd: contentStart + content.length,
+          children: deferInline(source, [{ start: contentStart, end: contentStart + content.length }], state)
+        })
+      );
+      index += 1;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(text)) {
+      blocks.push(node('thematicBreak', lineStart, line.end));
+      index += 1;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(text)) {
+      const inner: Line[] = [];
+      while (index < lines.length) {
+        const quoted = BLOCKQUOTE.exec(textOf(lines[index]));
+        if (!quoted) break;
+        inner.push({ start: lines[index].start + quoted[0].length, end: lines[index].end });
+        index += 1;
+      }
+      blocks.push(node('blockquote', lineStart, inner[inner.length - 1].end, { children: parseBlocks(source, inner, state) }));
+      continue;
+    }
+
+    const marker = LIST_MARKER.exec(text);
+    if (marker) {
+      const list = node('list', lineStart, line.end, { ordered: /\d/.test(marker[2]) });
+
+      while (index < lines.length) {
+        const itemText = textOf(lines[index]);
+        const itemMarker = LIST_MARKER.exec(itemText);
+        if (!itemMarker || !sameListType(itemMarker[2], marker[2])) break;
+
+        const spacing = itemMarker[3].length;
+        const width = itemMarker[1].length + itemMarker[2].length + (spacing >= 1 && spacing <= 4 ? spacing : 1);
+        const itemStart = lines[index].start + itemMarker[1].length;
+        const contentStart = Math.min(lines[index].start + width, lines[index].end);
+        const inner: Line[] = [{ start: contentStart, end: lines[index].end }];
+        index += 1;
+
+        while (index < lines.length) {
+          const next = textOf(lines[index]);
+          const previous = source.slice(inner[inner.length - 1].start, inner[inner.length - 1].end);
+          if (next.trim() === '') {
+            inner.push({ start: lines[index].end, end: lines[index].end });
+          } else if (indentOf(next) >= width) {
+            inner.push({ start: lines[index].start + width, end: lines[index].end });
+          } else if (previous.trim() !== '' && !startsBlock(next) && !LIST_MARKER.test(next)) {
+            inner.push({ start: lines[index].start + indentOf(next), end: lines[index].end });
+          } else {
+            break;
+          }
+          index += 1;
+        }
+
+        while (inner.length > 1 && inner[inner.length - 1].start === inner[inner.length - 1].end) {
+          inner.pop();
+        }
+
+        const itemEnd = inner[inner.length - 1].end;
+        list.children.push(
+          node('listItem', itemStart, itemEnd, { contentStart, contentEnd: itemEnd, children: parseBlocks(source, inner, state) })
+        );
+        list.end = itemEnd;
+
+        let lookahead = index;
+        while (lookahead < lines.length && textOf(lines[lookahead]).trim() === '') lookahead += 1;
+        const following = lookahead < lines.length ? LIST_MARKER.exec(textOf(lines[lookahead])) : null;
+        if (!following || !sameListType(following[2], marker[2])) break;
+        index = lookahead;
+      }
+
+      blocks.push(list);
+      continue;
+    }
+
+    if (HTML_BLOCK.test(text)) {
+      let last = index;
+      while (last + 1 < lines.length && textOf(lines[last + 1]).trim() !== '') last += 1;
+      blocks.push(node('html', lineStart, lines[last].end, { value: source.slice(lineStart, lines[last].end) }));
+      index = last + 1;
+      continue;
+    }
+
+    if (INDENTED_CODE.test(text)) {
+      let last = index;
+      for (let next = index + 1; next < lines.length; next += 1) {
+        const content = textOf(lines[next]);
+        if (content.trim() === '') continue;
+        if (!INDENTED_CODE.test(content)) break;
+        last = next;
+      }
+      const body = lines.slice(index, last + 1).map((entry) => textOf(entry).replace(INDENTED_CODE, ''));
+      blocks.push(node('code', line.start, lines[last].end, { value: body.join('\n') }));
+      index = last + 1;
+      continue;
+    }
+
+    const definition = DEFINITION.exec(text);
+    if (definition && definition[1].trim() !== '') {
+      const label = normalizeLabel(definition[1]);
+      const url = definition[2].startsWith('<') ? definition[2].slice(1, -1) : definition[2];
+      if (!state.definitions.has(label)) state.definitions.set(label, url);
+      blocks.push(node('definition', lineStart, line.end, { value: definition[1], url }));
+      index += 1;
+      continue;
+    }
+
+    const paragraph: Line[] = [{ start: lineStart, end: line.end }];
+    let setextDepth: number | undefined;
+    index += 1;
+    while (index < lines.length) {
+      const next = textOf(lines[index]);
+      if (next.trim() === '') break;
+      const underline = SETEXT_UNDERLINE.exec(next);
+      if (underline) {
+        setextDepth = underline[1][0] === '=' ? 1 : 2;
+        break;
+      }
+      if (startsBlock(next)) break;
+      paragraph.push({ start: lines[index].start + indentOf(next), end: lines[index].end });
+      index += 1;
+    }
+
+    const contentEnd = paragraph[paragraph.length - 1].end;
+    const children = deferInline(source, paragraph, state);
+    if (setextDepth !== undefined) {
+      blocks.push(
+        node('heading', lineStart, lines[index].end, { depth: setextDepth, contentStart: lineStart, contentEnd, children })
+      );
+      index += 1;
+    } else {
+      blocks.push(node('paragraph', lineStart, contentEnd, { children }));
+    }
+  }
+
+  return blocks;
+}
+
+function findRunEnd(text: string, index: number, char: string, limit: number): number {
+  let end = index;
+  while (end < limit && text[end] === char) end += 1;
+  return end;
+}
+
+function findBracketEnd(text: string, open: number, limit: number): number {
+  let depth = 0;
+  for (let index = open; index < limit; index += 1) {
+    const char = text[index];
+    if (char === '\\') {
+      index += 1;
+    } else if (char === '[') {
+      depth += 1;
+    } else if (char === ']') {
+      depth -= 1;
+      if (depth === 0) return index;
+    }
+  }
+  return -1;
+}
+
+function matchLink(text: string, open: number, limit: number): { labelEnd: number; end: number; url: string } | undefined {
+  const labelEnd = findBracketEnd(text, open, limit);
+  if (labelEnd === -1 || text[labelEnd + 1] !== '(') return undefined;
+
+  let depth = 0;
+  for (let index = labelEnd + 1; index < limit; index += 1) {
+    const char = text[index];
+    if (char === '\\') {
+      index += 1;
+    } else if (char === '(') {
+      depth += 1;
+    } else if (char === ')') {
+      depth -= 1;
+      if (depth === 0) {
+        const destination = text.slice(labelEnd + 2, index).trim();
+        const url = destination.startsWith('<') ? destination.slice(1, destination.indexOf('>')) : destination.split(/\s+/)[0];
+        return { labelEnd, end: index + 1, url };
+      }
+    }
+  }
+  return undefined;
+}
+
+// Full (`[text][label]`), collapsed (`[label][]`) and shortcut (`[label]`) references resolve to
+// the URL of a matching definition.
+function matchReference(
+  text: string,
+  open: number,
+  limit: number,
+  definitions: Map<string, string>
+): { labelEnd: number; end: number; url: string } | undefined {
+  const labelEnd = findBracketEnd(text, open, limit);
+  if (labelEnd === -1) return undefined;
+
+  let label = text.slice(open + 1, labelEnd);
+  let end = labelEnd + 1;
+  const referenceEnd = text[end] === '[' ? findBracketEnd(text, end, limit) : -1;
+  if (referenceEnd !== -1) {
+    const reference = text.slice(end + 1, referenceEnd);
+    if (reference.trim() !== '') label = reference;
+    end = referenceEnd + 1;
+  }
+
+  const url = definitions.get(normalizeLabel(label));
+  return url === undefined ? undefined : { labelEnd, end, url };
+}
+
+// Bare `http(s)://` and `www.` URLs are links too (as in GitHub Flavored Markdown). Trailing
+// punctuation and unbalanced closing parentheses are left out of the URL.
+function matchBareUrl(text: string, index: number, limit: number): number | undefined {
+  const match = BARE_URL.exec(text.slice(index, limit));
+  if (!match) return undefined;
+
+  let end = index + match[0].length;
+  const count = (char: string) => text.slice(index, end).split(char).length - 1;
+  for (;;) {
+    const last = text[end - 1];
+    if (/[?!.,:*_~'"]/.test(last) || (last === ')' && count('(') < count(')'))) end -= 1;
+    else break;
+  }
+  return end;
+}
+
+// Inline content is parsed over the joined text of its lines; `offsets` maps every index of
+// that text back to a position in the original source.
+function parseInline(source: string, lines: Line[], state: ParseState): MarkdownNode[] {
+  const offsets: number[] = [];
+  let text = '';
+  lines.forEach((line, position) => {
+    if (position > 0) {
+      text += '\n';
+      offsets.push(lines[position - 1].end);
+    }
+    text += source.slice(line.start, line.end);
+    for (let offset = line.start; offset < line.end; offset += 1) offsets.push(offset);
+  });
+  offsets.push(lines.length > 0 ? lines[lines.length - 1].end : 0);
+
+  const at = (index: number) => offsets[index];
+  const until = (index: number) => (index > 0 ? offsets[index - 1] + 1 : offsets[0]);
+
+  const parse = (from: number, to: number, inLink = false): MarkdownNode[] => {
+    const nodes: MarkdownNode[] = [];
+    let textStart = from;
+    let index = from;
+
+    const push = (entry: MarkdownNode, next: number) => {
+      if (index > textStart) {
+        nodes.push(node('text', at(textStart), until(index), { value: text.slice(textStart, index) }));
+      }
+      nodes.push(entry);
+      index = next;
+      textStart = next;
+    };
+
+    while (index < to) {
+      const char = text[index];
+
+      if (char === '\\' && index + 1 < to && ESCAPABLE.test(text[index + 1])) {
+        index += 2;
+        continue;
+      }
+
+      if (char === '`') {
+        const runEnd = findRunEnd(text, index, '`', to);
+        const length = runEnd - index;
+        let close = text.indexOf('`'.repeat(length), runEnd);
+        while (close !== -1 && close < to && findRunEnd(text, close, '`', to) - close !== length) {
+          close = text.indexOf('`'.repeat(length), findRunEnd(text, close, '`', to));
+        }
+        if (close === -1 || close + length > to) {
+          index = runEnd;
+          continue;
+        }
+        const raw = text.slice(runEnd, close).replace(/\n/g, ' ');
+        const value = /^ .* $/.test(raw) && raw.trim() !== '' ? raw.slice(1, -1) : raw;
+        push(node('inlineCode', at(index), until(close + length), { value }), close + length);
+        continue;
+      }
+
+      if (state.options.mentions && char === '@' && text[index + 1] === '[') {
+        const link = matchLink(text, index + 1, to);
+        const target = link ? MENTION_TARGET.exec(link.url) : null;
+        if (link && target) {
+          push(
+            node('mention', at(index), until(link.end), {
+              value: text.slice(index + 2, link.labelEnd),
+              entityType: target[1],
+              id: target[2],
+              contentStart: at(index + 2),
+              contentEnd: until(link.labelEnd)
+            }),
+            link.end
+          );
+          continue;
+        }
+      }
+
+      if ((char === '[' || (char === '!' && text[index + 1] === '[')) && index + 1 < to) {
+        const open = char === '!' ? index + 1 : index;
+        const link = matchLink(text, open, to) ?? matchReference(text, open, to, state.definitions);
+        if (link) {
+          const type = char === '!' ? 'image' : 'link';
+          push(
+            node(type, at(index), until(link.end), {
+              url: link.url,
+              contentStart: at(open + 1),
+              contentEnd: until(link.labelEnd),
+              children: type === 'link' ? parse(open + 1, link.labelEnd, true) : [],
+              value: type === 'image' ? text.slice(open + 1, link.labelEnd) : undefined
+            }),
+            link.end
+          );
+          continue;
+        }
+      }
+
+      if (char === '<') {
+        const rest = text.slice(index, to);
+        const autolink = AUTOLINK.exec(rest);
+        if (autolink) {
+          const end = index + autolink[0].length;
+          push(
+            node('link', at(index), until(end), {
+              url: autolink[1],
+              contentStart: at(index + 1),
+              contentEnd: until(end - 1),
+              children: [node('text', at(index + 1), until(end - 1), { value: autolink[1] })]
+            }),
+            end
+          );
+          continue;
+        }
+        const html = INLINE_HTML.exec(rest);
+        if (html) {
+          const end = index + html[0].length;
+          push(node('html', at(index), until(end), { value: html[0] }), end);
+          continue;
+        }
+      }
+
+      if (char === '*' || char === '_') {
+        const runEnd = findRunEnd(text, index, char, to);
+        const length = runEnd - index;
+        const opens =
+          length <= 3 &&
+          runEnd < to &&
+          !/\s/.test(text[runEnd]) &&
+          !(char === '_' && index > 0 && /[\p{L}\p{N}]/u.test(text[index - 1]));
+
+        let close = -1;
+        for (let cursor = runEnd + 1; opens && cursor < to; cursor += 1) {
+          if (text[cursor] === '\\') {
+            cursor += 1;
+            continue;
+          }
+          if (text[cursor] !== char) continue;
+          const closeEnd = findRunEnd(text, cursor, char, to);
+          const closes =
+            closeEnd - cursor === length &&
+            !/\s/.test(text[cursor - 1]) &&
+            !(char === '_' && closeEnd < text.length && /[\p{L}\p{N}]/u.test(text[closeEnd]));
+          if (closes) {
+            close = cursor;
+            break;
+          }
+          cursor = closeEnd - 1;
+        }
+
+        if (close === -1) {
+          index = runEnd;
+          continue;
+        }
+
+        const end = close + length;
+        if (length === 3) {
+          const inner = node('emphasis', at(index + 2), until(close + 1), {
+            contentStart: at(runEnd),
+            contentEnd: until(close),
+            children: parse(runEnd, close, inLink)
+          });
+          push(
+            node('strong', at(index), until(end), { contentStart: at(index + 2), contentEnd: until(close + 1), children: [inner] }),
+            end
+          );
+        } else {
+          push(
+            node(length === 2 ? 'strong' : 'emphasis', at(index), until(end), {
+              contentStart: at(runEnd),
+              contentEnd: until(close),
+              children: parse(runEnd, close, inLink)
+            }),
+            end
+          );
+        }
+        continue;
+      }
+
+      if (!inLink && /[hw]/i.test(char) && (index === 0 || /[\s*_~(]/.test(text[index - 1]))) {
+        const end = matchBareUrl(text, index, to);
+        if (end !== undefined) {
+          const value = text.slice(index, end);
+          push(
+            node('link', at(index), until(end), {
+              url: /^www\./i.test(value) ? `http://${value}` : value,
+              contentStart: at(index),
+              contentEnd: until(end),
+              children: [node('text', at(index), until(end), { value })]
+            }),
+            end
+          );
+          continue;
+        }
+      }
+
+      index += 1;
+    }
+
+    if (to > textStart) {
+      nodes.push(node('text', at(textStart), until(to), { value: text.slice(textStart, to) }));
+    }
+    return nodes;
+  };
+
+  return parse(0, text.length);
+}
+
+export function parseMarkdown(source: string, options: MarkdownParseOptions = {}): MarkdownNode {
+  const state: ParseState = { options, definitions: new Map(), inline: [] };
+  const children = parseBlocks(source, splitLines(source), state);
+  state.inline.forEach((parse) => parse());
+  return node('root', 0, source.length, { children });
+}
+
+export function visitMarkdown(root: MarkdownNode, visit: (node: MarkdownNode) => void): void {
+  visit(root);
+  root.children.forEach((child) => visitMarkdown(child, visit));
+}
+
+export function markdownPosition(source: string, offset: number): { line: number; column: number } {
+  const before = source.slice(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return { line: before.split('\n').length, column: offset - lineStart + 1 };
+}
+
+interface MarkdownRule {
+  types: MarkdownNodeType[];
+  label: string;
+  message: string;
+}
+
+const MARKDOWN_RULES: Record<keyof AllowedMarkdown, MarkdownRule> = {
+  bold: { types: ['strong'], label: 'bold', message: 'Bold text is not allowed' },
+  italic: { types: ['emphasis'], label: 'italics', message: 'Italic text is not allowed' },
+  lists: { types: ['list'], label: 'lists', message: 'Lists are not allowed' },
+  headers: { types: ['heading'], label: 'headings', message: 'Headings are not allowed' },
+  links: { types: ['link', 'definition'], label: 'links', message: 'Links are not allowed' },
+  images: { types: ['image'], label: 'images', message: 'Images are not allowed' },
+  code: { types: ['code', 'inlineCode'], label: 'code', message: 'Code is not allowed' },
+  quote: { types: ['blockquote'], label: 'block quotes', message: 'Block quotes are not allowed' }
+};
+
+const HTML_RULE: MarkdownRule = { types: ['html'], label: 'HTML', message: 'HTML is not allowed' };
+
+function disallowedRules(options: MarkdownFieldOptions): MarkdownRule[] {
+  const rules = (Object.keys(MARKDOWN_RULES) as Array<keyof AllowedMarkdown>)
+    .filter((key) => options.allowedMarkdown?.[key] === false)
+    .map((key) => MARKDOWN_RULES[key]);
+  return options.allowHtml === false ? [...rules, HTML_RULE] : rules;
+}
+
+export interface MarkdownViolation {
+  node: MarkdownNode;
+  label: string;
+  message: string;
+}
+
+export function hasMarkdownRules(options: MarkdownFieldOptions): boolean {
+  return disallowedRules(options).length > 0;
+}
+
+export function findDisallowedMarkdown(root: MarkdownNode, options: MarkdownFieldOptions): MarkdownViolation[] {
+  const rules = disallowedRules(options);
+  const violations: MarkdownViolation[] = [];
+  visitMarkdown(root, (entry) => {
+    const rule = rules.find((candidate) => candidate.types.includes(entry.type));
+    if (rule) violations.push({ node: entry, label: rule.label, message: rule.message });
+  });
+  return violations;
+}
+
+export function describeMarkdownRules(options: MarkdownFieldOptions): string | undefined {
+  const labels = disallowedRules(options).map((rule) => rule.label);
+  if (labels.length === 0) return undefined;
+  const list = labels.length === 1 ? labels[0] : `${labels.slice(0, -1).join(', ')} or ${labels[labels.length - 1]}`;
+  return `no ${list}`;
+}
+
+// Removes the syntax of each disallowed node while keeping the text it wraps: links become
+// their label, headings and emphasis become plain text, list markers and quote prefixes are
+// dropped. Images, link definitions and autolinks (whose only text is the URL) are removed
+// entirely and HTML keeps only the text between its tags.
+export function stripMarkdown(source: string, root: MarkdownNode, disallowed: MarkdownNode[]): string {
+  const remove = new Set(disallowed);
+
+  const rewrite = (parent: MarkdownNode, from: number, to: number, unwrapItems = false): string => {
+    let output = '';
+    let cursor = from;
+    for (const child of parent.children) {
+      output += source.slice(cursor, child.start) + transform(child, unwrapItems);
+      cursor = child.end;
+    }
+    return output + source.slice(cursor, to);
+  };
+
+  const transform = (entry: MarkdownNode, unwrapItem: boolean): string => {
+    if (entry.type === 'listItem' && unwrapItem) {
+      const width = entry.contentStart! - entry.start;
+      return rewrite(entry, entry.contentStart!, entry.end).replace(new RegExp(`\\n[ \\t]{1,${Math.max(width, 1)}}`, 'g'), '\n');
+    }
+    if (!remove.has(entry)) return rewrite(entry, entry.start, entry.end);
+
+    switch (entry.type) {
+      case 'image':
+      case 'definition':
+        return '';
+      case 'link':
+        return source[entry.start] === '[' ? rewrite(entry, entry.contentStart!, entry.contentEnd!) : '';
+      case 'html':
+        return (entry.value ?? '').replace(/<[^>]*>/g, '');
+      case 'code':
+      case 'inlineCode':
+        return entry.value ?? '';
+      case 'list':
+        return rewrite(entry, entry.start, entry.end, true);
+      case 'blockquote':
+        return rewrite(entry, entry.start, entry.end).replace(/^([ \t]*)>[ \t]?/gm, '$1');
+      default:
+        return rewrite(entry, entry.contentStart ?? entry.start, entry.contentEnd ?? entry.end);
+    }
+  };
+
+  return rewrite(root, 0, source.length);
+}
+
+export function markdownText(entry: MarkdownNode): string {
+  if (entry.type === 'text' || entry.type === 'inlineCode' || entry.type === 'mention') return entry.value ?? '';
+  if (entry.type === 'image' || entry.type === 'html') return '';
+  return entry.children.map(markdownText).join('');
+}
+
+function normalizeHeading(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function parseRequiredHeading(value: string): { depth?: number; text: string } {
+  const match = /^(#{1,6})\s+(.*)$/.exec(value.trim());
+  return match ? { depth: match[1].length, text: normalizeHeading(match[2]) } : { text: normalizeHeading(value) };
+}
+
+function countParagraphs(entry: MarkdownNode): number {
+  return entry.children.reduce((count, child) => {
+    if (child.type === 'paragraph') return count + 1;
+    if (child.type === 'list') return count;
+    return count + countParagraphs(child);
+  }, 0);
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function describeCount(min: number | undefined, max: number | undefined, noun: string): string | undefined {
+  if (min !== undefined && max !== undefined) return `${min}-${plural(max, noun)}`;
+  if (min !== undefined) return `at least ${plural(min, noun)}`;
+  if (max !== undefined) return `at most ${plural(max, noun)}`;
+  return undefined;
+}
+
+function describeHeadingDepth(options: MarkdownFieldOptions): string | undefined {
+  const { minHeadingDepth: min, maxHeadingDepth: max } = options;
+  if (min === undefined && max === undefined) return undefined;
+  return min === max ? `h${min}` : `h${min ?? 1}-h${max ?? 6}`;
+}
+
+export function hasMarkdownStructure(options: MarkdownFieldOptions): boolean {
+  return (
+    (options.requiredHeadings?.length ?? 0) > 0 ||
+    options.minHeadingDepth !== undefined ||
+    options.maxHeadingDepth !== undefined ||
+    options.minListItems !== undefined ||
+    options.maxListItems !== undefined ||
+    options.minParagraphs !== undefined ||
+    options.maxParagraphs !== undefined
+  );
+}
+
+function checkCount(
+  path: string[],
+  count: number,
+  min: number | undefined,
+  max: number | undefined,
+  noun: string
+): ParseIssue[] {
+  if (min !== undefined && count < min) {
+    return [issue(path, `Expected at least ${plural(min, noun)}`, 'too_small', `>= ${min}`, count)];
+  }
+  if (max !== undefined && count > max) {
+    return [issue(path, `Expected at most ${plural(max, noun)}`, 'too_big', `<= ${max}`, count)];
+  }
+  return [];
+}
+
+export function checkMarkdownStructure(
+  source: string,
+  root: MarkdownNode,
+  options: MarkdownFieldOptions,
+  path: string[]
+): ParseIssue[] {
+  const headings: MarkdownNode[] = [];
+  let listItems = 0;
+  visitMarkdown(root, (entry) => {
+    if (entry.type === 'heading') headings.push(entry);
+    if (entry.type === 'listItem') listItems += 1;
+  });
+
+  const issues: ParseIssue[] = [];
+  const depth = describeHeadingDepth(options);
+  for (const heading of headings) {
+    const level = heading.depth ?? 1;
+    if (level < (options.minHeadingDepth ?? 1) || level > (options.maxHeadingDepth ?? 6)) {
+      const { line, column } = markdownPosition(source, heading.start);
+      issues.push(
+        issue(
+          path,
+          `Heading "${markdownText(heading)}" must be ${depth} (line ${line}, column ${column})`,
+          'invalid_markdown',
+          depth,
+          source.slice(heading.start, heading.end)
+        )
+      );
+    }
+  }
+
+  for (const required of options.requiredHeadings ?? []) {
+    const expected = parseRequiredHeading(required);
+    const found = headings.some(
+      (heading) =>
+        normalizeHeading(markdownText(heading)) === expected.text &&
+        (expected.depth === undefined || heading.depth === expected.depth)
+    );
+    if (!found) {
+      issues.push(issue(path, `Missing required heading "${required}"`, 'invalid_markdown', required));
+    }
+  }
+
+  issues.push(...checkCount(path, listItems, options.minListItems, options.maxListItems, 'list item'));
+  issues.push(...checkCount(path, countParagraphs(root), options.minParagraphs, options.maxParagraphs, 'paragraph'));
+  return issues;
+}
+
+export function describeMarkdownStructure(options: MarkdownFieldOptions): string[] {
+  const headings = options.requiredHeadings ?? [];
+  const depth = describeHeadingDepth(options);
+  const listed =
+    headings.length > 1
+      ? `${headings.slice(0, -1).map((heading) => `"${heading}"`).join(', ')} and "${headings[headings.length - 1]}"`
+      : `"${headings[0]}"`;
+
+  return [
+    headings.length > 0 ? `must include headings ${listed}` : undefined,
+    depth ? `headings ${depth} only` : undefined,
+    describeCount(options.minListItems, options.maxListItems, 'list item'),
+    describeCount(options.minParagraphs, options.maxParagraphs, 'paragraph')
+  ].filter((segment): segment is string => segment !== undefined);
+}
+
+export function findMentions(root: MarkdownNode): MarkdownNode[] {
+  const mentions: MarkdownNode[] = [];
+  visitMarkdown(root, (entry) => {
+    if (entry.type === 'mention') mentions.push(entry);
+  });
+  return mentions;
+}
+
+export function describeMarkdownMentions(options: MarkdownFieldOptions): string | undefined {
+  if (!options.mentions) return undefined;
+  const syntax = 'mention entities as @[Name](type:id)';
+  if (options.mentions === true || options.mentions.length === 0) return syntax;
+  const types = options.mentions;
+  const listed = types.length === 1 ? types[0] : `${types.slice(0, -1).join(', ')} or ${types[types.length - 1]}`;
+  return `${syntax} where type is ${listed}`;
+}
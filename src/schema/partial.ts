@@ -0,0 +1,353 @@
+import type {
+  DeepPartial,
+  ParseIssue,
+  SchemaDefinition,
+  SchemaOptions,
+  SchemaOutput
+} from './types';
+import {
+  isArrayField,
+  isConfidenceField,
+  isMarkdownField,
+  isObjectField,
+  isPrimitiveArrayField,
+  isRecordField,
+  isTextField
+} from './typeGuards';
+import { wrappedField } from './internal';
+import { parseDefinition, parseRoot } from './validation';
+import { appendPath, issue } from './utils';
+
+export type PartialStatus = 'complete' | 'in_progress' | 'missing' | 'failed';
+
+export interface PartialParseResult<T> {
+  data: DeepPartial<T>;
+  complete: boolean;
+  status: Record<string, PartialStatus>;
+  issues: ParseIssue[];
+}
+
+type PartialNode =
+  | { type: 'object'; complete: boolean; entries: Record<string, PartialNode> }
+  | { type: 'array'; complete: boolean; items: PartialNode[] }
+  | { type: 'value'; complete: boolean; value: unknown };
+
+interface ReaderState {
+  text: string;
+  pos: number;
+}
+
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null };
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+function skipWhitespace(state: ReaderState) {
+  while (state.pos < state.text.length && /\s/.test(state.text[state.pos])) {
+    state.pos += 1;
+  }
+}
+
+function atEnd(state: ReaderState) {
+  return state.pos >= state.text.length;
+}
+
+function unexpected(state: ReaderState): never {
+  throw new SyntaxError(`Unexpected token ${state.text[state.pos]} in JSON at position ${state.pos}`);
+}
+
+function readString(state: ReaderState): { value: string; complete: boolean } {
+  let value = '';
+  state.pos += 1;
+
+  while (!atEnd(state)) {
+    const char = state.text[state.pos];
+
+    if (char === '"') {
+      state.pos += 1;
+      return { value, complete: true };
+    }
+
+    if (char === '\\') {
+      const next = state.text[state.pos + 1];
+      if (next === undefined) break;
+      if (next === 'u') {
+        const hex = state.text.slice(state.pos + 2, state.pos + 6);
+        if (hex.length < 4) break;
+        value += String.fromCharCode(parseInt(hex, 16));
+        state.pos += 6;
+        continue;
+      }
+      value += ESCAPES[next] ?? next;
+      state.pos += 2;
+      continue;
+    }
+
+    value += char;
+    state.pos += 1;
+  }
+
+  state.pos = state.text.length;
+  return { value, complete: false };
+}
+
+function readNumber(state: ReaderState): PartialNode {
+  const match = /^-?\d*\.?\d*(?:[eE][-+]?\d*)?/.exec(state.text.slice(state.pos));
+  const token = match?.[0] ?? '';
+  if (!token) unexpected(state);
+  state.pos += token.length;
+
+  const value = Number(token);
+  return {
+    type: 'value',
+    complete: !atEnd(state),
+    value: Number.isNaN(value) ? undefined : value
+  };
+}
+
+function readLiteral(state: ReaderState): PartialNode {
+  const remaining = state.text.slice(state.pos);
+  for (const [literal, value] of Object.entries(LITERALS)) {
+    if (remaining.startsWith(literal)) {
+      state.pos += literal.length;
+      return { type: 'value', complete: true, value };
+    }
+    if (literal.startsWith(remaining)) {
+      state.pos = state.text.length;
+      return { type: 'value', complete: false, value: undefined };
+    }
+  }
+  return unexpected(state);
+}
+
+function readObject(state: ReaderState): PartialNode {
+  const node: PartialNode = { type: 'object', complete: false, entries: {} };
+  state.pos += 1;
+
+  for (;;) {
+    skipWhitespace(state);
+    if (atEnd(state)) return node;
+
+    const char = state.text[state.pos];
+    if (char === '}') {
+      state.pos += 1;
+      node.complete = true;
+      return node;
+    }
+    if (char === ',') {
+      state.pos += 1;
+      continue;
+    }
+    if (char !== '"') unexpected(state);
+
+    const key = readString(state);
+    if (!key.complete) return node;
+
+    skipWhitespace(state);
+    if (atEnd(state)) return node;
+    if (state.text[state.pos] !== ':') unexpected(state);
+    state.pos += 1;
+
+    const value = readValue(state);
+    if (!value) return node;
+    node.entries[key.value] = value;
+    if (!value.complete) return node;
+  }
+}
+
+function readArray(state: ReaderState): PartialNode {
+  const node: PartialNode = { type: 'array', complete: false, items: [] };
+  state.pos += 1;
+
+  for (;;) {
+    skipWhitespace(state);
+    if (atEnd(state)) return node;
+
+    const char = state.text[state.pos];
+    if (char === ']') {
+      state.pos += 1;
+      node.complete = true;
+      return node;
+    }
+    if (char === ',') {
+      state.pos += 1;
+      continue;
+    }
+
+    const value = readValue(state);
+    if (!value) return node;
+    node.items.push(value);
+    if (!value.complete) return node;
+  }
+}
+
+function readValue(state: ReaderState): PartialNode | undefined {
+  skipWhitespace(state);
+  if (atEnd(state)) return undefined;
+
+  const char = state.text[state.pos];
+  if (char === '{') return readObject(state);
+  if (char === '[') return readArray(state);
+  if (char === '"') {
+    const { value, complete } = readString(state);
+    return { type: 'value', complete, value };
+  }
+  if (char === '-' || /\d/.test(char)) return readNumber(state);
+  return readLiteral(state);
+}
+
+function toPlain(node: PartialNode): unknown {
+  if (node.type === 'object') {
+    return Object.fromEntries(Object.entries(node.entries).map(([key, child]) => [key, toPlain(child)]));
+  }
+  if (node.type === 'array') {
+    return node.items.map(toPlain);
+  }
+  return node.value;
+}
+
+interface WalkState {
+  status: Record<string, PartialStatus>;
+  issues: ParseIssue[];
+  coerce?: boolean;
+}
+
+function walkField(
+  field: SchemaDefinition[string],
+  node: PartialNode | undefined,
+  path: string[],
+  state: WalkState
+): unknown {
+  const key = path.join('.');
+
+  if (!node) {
+    state.status[key] = 'missing';
+    return undefined;
+  }
+
+  if (node.complete) {
+    const plain = toPlain(node);
+    if (plain === null) {
+      state.status[key] = 'complete';
+      return field.nullable ? null : undefined;
+    }
+    const parsed = field.parse(plain, { path, coerce: state.coerce });
+    state.status[key] = parsed.success ? 'complete' : 'failed';
+    if (parsed.success) return parsed.value;
+    state.issues.push(...parsed.issues);
+    return undefined;
+  }
+
+  state.status[key] = 'in_progress';
+
+  if (isConfidenceField(field) && node.type === 'object') {
+    return walkField(field.inner, node.entries.value, path, state);
+  }
+
+  const wrapped = wrappedField(field);
+  if (wrapped) {
+    return walkField(wrapped, node, path, state);
+  }
+
+  if (isObjectField(field) && node.type === 'object') {
+    return walkDefinition(field.shape, node, path, state);
+  }
+
+  if (isArrayField(field) && node.type === 'array') {
+    // Complete items that fail validation stay `undefined` rather than becoming empty objects,
+    // so every index still matches its `status` key.
+    return node.items.map((item, index) => {
+      const itemPath = appendPath(path, index);
+      const itemKey = itemPath.join('.');
+
+      if (item.complete) {
+        const parsed = parseDefinition(field.itemDefinition, toPlain(item), itemPath, { coerce: state.coerce });
+        state.status[itemKey] = parsed.success ? 'complete' : 'failed';
+        if (parsed.success) return parsed.data;
+        state.issues.push(...parsed.issues);
+        return undefined;
+      }
+
+      state.status[itemKey] = 'in_progress';
+      return item.type === 'object' ? walkDefinition(field.itemDefinition, item, itemPath, state) : {};
+    });
+  }
+
+  if (isPrimitiveArrayField(field) && node.type === 'array') {
+    return node.items.map((item, index) => walkField(field.item, item, appendPath(path, index), state));
+  }
+
+  if (isRecordField(field) && node.type === 'object') {
+    return Object.fromEntries(
+      Object.entries(node.entries).map(([entryKey, entry]) => [
+        entryKey,
+        walkField(field.value, entry, appendPath(path, entryKey), state)
+      ])
+    );
+  }
+
+  if ((isTextField(field) || isMarkdownField(field)) && typeof (node as { value?: unknown }).value === 'string') {
+    return (node as { value: string }).value;
+  }
+
+  return undefined;
+}
+
+function walkDefinition(
+  definition: SchemaDefinition,
+  node: Extract<PartialNode, { type: 'object' }> | undefined,
+  path: string[],
+  state: WalkState
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, field] of Object.entries(definition)) {
+    const value = walkField(field, node?.entries[key], appendPath(path, key), state);
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+export function parsePartialDefinition<Definition extends SchemaDefinition>(
+  definition: Definition,
+  input: string,
+  options: SchemaOptions
+): PartialParseResult<SchemaOutput<Definition>> {
+  const state: WalkState = { status: {}, issues: [], coerce: options.coerce };
+  const start = input.indexOf('{');
+  const reader: ReaderState = { text: start === -1 ? '' : input.slice(start), pos: 0 };
+
+  let root: PartialNode | undefined;
+  try {
+    root = readValue(reader);
+  } catch (error) {
+    return {
+      data: {} as DeepPartial<SchemaOutput<Definition>>,
+      complete: false,
+      status: {},
+      issues: [issue([], `Failed to parse partial JSON input: ${(error as Error).message}`, 'invalid_format', 'json_object', input)]
+    };
+  }
+
+  const objectNode = root?.type === 'object' ? root : undefined;
+  let data = walkDefinition(definition, objectNode, [], state);
+  const complete = objectNode?.complete ?? false;
+
+  if (objectNode && complete) {
+    const parsed = parseRoot(definition, toPlain(objectNode), options);
+    if (parsed.success) {
+      data = parsed.data as Record<string, unknown>;
+      state.issues = [];
+    } else {
+      state.issues = parsed.issues;
+    }
+  }
+
+  return {
+    data: data as DeepPartial<SchemaOutput<Definition>>,
+    complete,
+    status: state.status,
+    issues: state.issues
+  };
+}
@@ -0,0 +1,67 @@
+import type { ParseIssue, Refinement, RefinementIssue, RefinementResult } from './types';
+import { issue } from './utils';
+
+export function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return typeof value === 'object' && value !== null && typeof (value as PromiseLike<T>).then === 'function';
+}
+
+function collectIssues(result: RefinementResult, added: ParseIssue[], path: string[]): ParseIssue[] {
+  if (result === false) {
+    return [...added, issue(path, 'Invalid value', 'custom')];
+  }
+  if (typeof result === 'string') {
+    return [...added, issue(path, result, 'custom')];
+  }
+  return added;
+}
+
+export function runRefinements<T>(
+  refine: Refinement<T> | Array<Refinement<T>> | undefined,
+  value: T,
+  path: string[],
+  pending?: Array<Promise<ParseIssue[]>>
+): ParseIssue[] {
+  if (!refine) return [];
+
+  const refinements = Array.isArray(refine) ? refine : [refine];
+  const issues: ParseIssue[] = [];
+
+  for (const refinement of refinements) {
+    const added: ParseIssue[] = [];
+    const ctx = {
+      path,
+      addIssue(entry: RefinementIssue | string) {
+        const normalized = typeof entry === 'string' ? { message: entry } : entry;
+        const issuePath = normalized.path ? [...path, ...normalized.path.map(String)] : path;
+        added.push(issue(issuePath, normalized.message, 'custom'));
+      }
+    };
+
+    const result = refinement(value, ctx);
+    if (isPromiseLike<RefinementResult>(result)) {
+      if (!pending) {
+        // Synchronous parsing can't wait for the result, so the promise is abandoned with its
+        // rejection handled and the value is reported as unchecked.
+        Promise.resolve(result).catch(() => undefined);
+        issues.push(
+          issue(path, 'Async refinement cannot run during synchronous parsing; use parseAsync() or safeParseAsync()', 'custom')
+        );
+        continue;
+      }
+      // A refinement that rejects is reported as an issue, so `safeParseAsync()` still resolves.
+      pending.push(
+        Promise.resolve(result).then(
+          (resolved) => collectIssues(resolved, added, path),
+          (error: unknown) => [
+            issue(path, `Refinement failed: ${error instanceof Error ? error.message : String(error)}`, 'custom')
+          ]
+        )
+      );
+      continue;
+    }
+
+    issues.push(...collectIssues(result, added, path));
+  }
+
+  return issues;
+}
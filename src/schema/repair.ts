@@ -0,0 +1,250 @@
+import type { SchemaValidationResult } from './types';
+
+export type BuiltInRepairName =
+  | 'codeFence'
+  | 'surroundingText'
+  | 'singleQuotes'
+  | 'trailingCommas'
+  | 'unclosedBrackets';
+
+export interface RepairStrategy {
+  name: string;
+  description?: string;
+  repair(input: string): string | undefined;
+}
+
+export interface AppliedRepair {
+  strategy: string;
+  description: string;
+}
+
+export interface RepairOptions {
+  repairs?: Partial<Record<BuiltInRepairName, boolean>>;
+  strategies?: RepairStrategy[];
+}
+
+export type RepairParseResult<T> = SchemaValidationResult<T> & { repairs: AppliedRepair[] };
+
+export type RepairJsonResult =
+  | { success: true; value: unknown; repairs: AppliedRepair[] }
+  | { success: false; error: Error; repairs: AppliedRepair[] };
+
+type ScanVisitor = (char: string, index: number, inString: boolean) => void;
+
+function scan(input: string, visit: ScanVisitor): { inString: boolean } {
+  let inString = false;
+  let escaped = false;
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+
+    if (inString) {
+      visit(char, index, true);
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    }
+    visit(char, index, false);
+  }
+
+  return { inString };
+}
+
+const codeFence: RepairStrategy = {
+  name: 'codeFence',
+  description: 'Removed markdown code fence around JSON',
+  repair(input) {
+    const closed = input.match(/```[\w-]*[^\S\n]*\n?([\s\S]*?)```/);
+    if (closed) {
+      return closed[1].trim();
+    }
+    const open = input.match(/```[\w-]*[^\S\n]*\n?([\s\S]*)$/);
+    return open ? open[1].trim() : undefined;
+  }
+};
+
+const surroundingText: RepairStrategy = {
+  name: 'surroundingText',
+  description: 'Removed text surrounding the JSON object',
+  repair(input) {
+    const start = input.indexOf('{');
+    if (start === -1) return undefined;
+
+    // Text after a `}` is only cut when the brackets balance there; a truncated object is kept
+    // whole so `unclosedBrackets` can close it instead of dropping its last fields.
+    let depth = 0;
+    let end = -1;
+    scan(input.slice(start), (char, index, inString) => {
+      if (inString) return;
+      if (char === '{' || char === '[') {
+        depth += 1;
+      } else if (char === '}' || char === ']') {
+        depth -= 1;
+        if (depth === 0 && char === '}') end = start + index;
+      }
+    });
+    return end !== -1 ? input.slice(start, end + 1) : input.slice(start).trimEnd();
+  }
+};
+
+const singleQuotes: RepairStrategy = {
+  name: 'singleQuotes',
+  description: 'Replaced single-quoted strings with double-quoted strings',
+  repair(input) {
+    let output = '';
+    let inDouble = false;
+    let inSingle = false;
+    let escaped = false;
+
+    for (const char of input) {
+      if (inDouble) {
+        output += char;
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inDouble = false;
+        continue;
+      }
+
+      if (inSingle) {
+        if (escaped) {
+          output += char === "'" ? "'" : `\\${char}`;
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === "'") {
+          output += '"';
+          inSingle = false;
+        } else if (char === '"') {
+          output += '\\"';
+        } else {
+          output += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inDouble = true;
+        output += char;
+      } else if (char === "'") {
+        inSingle = true;
+        output += '"';
+      } else {
+        output += char;
+      }
+    }
+
+    return output;
+  }
+};
+
+const trailingCommas: RepairStrategy = {
+  name: 'trailingCommas',
+  description: 'Removed trailing commas before closing brackets',
+  repair(input) {
+    const removed = new Set<number>();
+    let pendingComma = -1;
+
+    scan(input, (char, index, inString) => {
+      if (inString) {
+        pendingComma = -1;
+        return;
+      }
+      if (char === ',') {
+        pendingComma = index;
+      } else if (char === '}' || char === ']') {
+        if (pendingComma !== -1) removed.add(pendingComma);
+        pendingComma = -1;
+      } else if (!/\s/.test(char)) {
+        pendingComma = -1;
+      }
+    });
+
+    if (removed.size === 0) return undefined;
+    let output = '';
+    for (let index = 0; index < input.length; index += 1) {
+      if (!removed.has(index)) output += input[index];
+    }
+    return output;
+  }
+};
+
+const unclosedBrackets: RepairStrategy = {
+  name: 'unclosedBrackets',
+  description: 'Closed unterminated strings, arrays and objects',
+  repair(input) {
+    const stack: string[] = [];
+    const { inString } = scan(input, (char, _index, insideString) => {
+      if (insideString) return;
+      if (char === '{') stack.push('}');
+      else if (char === '[') stack.push(']');
+      else if (char === '}' || char === ']') stack.pop();
+    });
+
+    if (!inString && stack.length === 0) return undefined;
+
+    let output = inString ? `${input}"` : input.trimEnd();
+    if (output.endsWith(',')) {
+      output = output.slice(0, -1);
+    } else if (output.endsWith(':')) {
+      output = `${output} null`;
+    }
+    return output + stack.reverse().join('');
+  }
+};
+
+export const builtInRepairStrategies: Record<BuiltInRepairName, RepairStrategy> = {
+  codeFence,
+  surroundingText,
+  singleQuotes,
+  trailingCommas,
+  unclosedBrackets
+};
+
+function tryParse(input: string): { success: true; value: unknown } | { success: false; error: Error } {
+  try {
+    return { success: true, value: JSON.parse(input) };
+  } catch (error) {
+    return { success: false, error: error as Error };
+  }
+}
+
+export function repairJson(input: string, options: RepairOptions = {}): RepairJsonResult {
+  const repairs: AppliedRepair[] = [];
+  let current = input;
+  let parsed = tryParse(current);
+
+  if (parsed.success) {
+    return { success: true, value: parsed.value, repairs };
+  }
+
+  const strategies = [
+    ...(Object.keys(builtInRepairStrategies) as BuiltInRepairName[])
+      .filter((name) => options.repairs?.[name] !== false)
+      .map((name) => builtInRepairStrategies[name]),
+    ...(options.strategies ?? [])
+  ];
+
+  for (const strategy of strategies) {
+    const next = strategy.repair(current);
+    if (next === undefined || next === current) continue;
+
+    current = next;
+    repairs.push({ strategy: strategy.name, description: strategy.description ?? strategy.name });
+
+    parsed = tryParse(current);
+    if (parsed.success) {
+      return { success: true, value: parsed.value, repairs };
+    }
+  }
+
+  return { success: false, error: parsed.error, repairs };
+}
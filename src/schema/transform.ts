@@ -1,13 +1,30 @@
 import type { Schema } from './builder';
-import type { MarkdownFieldDefinition, SchemaDefinition, SchemaOutput, SchemaValidationResult } from './types';
+import type {
+  EntityRegistry,
+  KnownEntity,
+  MarkdownFieldDefinition,
+  SchemaDefinition,
+  SchemaOutput,
+  SchemaValidationResult
+} from './types';
 import {
   isArrayField,
+  isCitationField,
+  isDateField,
+  isDateRangeField,
+  isDiscriminatedUnionField,
   isEntityField,
   isMarkdownField,
   isObjectField,
+  isPrimitiveArrayField,
+  isRecordField,
   isTextField,
-  isEnumField
+  isEnumField,
+  isUnionField
 } from './typeGuards';
+import { matchUnionMember, selectVariant, wrappedField } from './internal';
+import { findEntity } from './entities';
+import { findMentions, parseMarkdown } from './markdown';
 
 export interface DiffChange<T = unknown> {
   path: string;
@@ -76,7 +93,13 @@ export function diffSchemaData<Definition extends SchemaDefinition>(
       return;
     }
 
-    if (isArrayField(fieldDef)) {
+    const wrapped = wrappedField(fieldDef);
+    if (wrapped) {
+      walk(wrapped, prevValue, nextValue, path);
+      return;
+    }
+
+    if (isArrayField(fieldDef) || isPrimitiveArrayField(fieldDef)) {
       const prevArray = Array.isArray(prevValue) ? prevValue : [];
       const nextArray = Array.isArray(nextValue) ? nextValue : [];
       const maxLength = Math.max(prevArray.length, nextArray.length);
@@ -110,6 +133,39 @@ export function diffSchemaData<Definition extends SchemaDefinition>(
       return;
     }
 
+    if (isRecordField(fieldDef) && prevValue && nextValue) {
+      const prevRecord = prevValue as Record<string, unknown>;
+      const nextRecord = nextValue as Record<string, unknown>;
+      const keys = new Set([...Object.keys(prevRecord), ...Object.keys(nextRecord)]);
+      for (const key of keys) {
+        walk(fieldDef.value, prevRecord[key], nextRecord[key], joinPath(path, key));
+      }
+      return;
+    }
+
+    if (isDiscriminatedUnionField(fieldDef)) {
+      const variant = selectVariant(fieldDef, prevValue);
+      if (variant && variant === selectVariant(fieldDef, nextValue)) {
+        for (const key of Object.keys(variant)) {
+          walk(
+            variant[key],
+            (prevValue as Record<string, unknown>)[key],
+            (nextValue as Record<string, unknown>)[key],
+            joinPath(path, key)
+          );
+        }
+        return;
+      }
+    }
+
+    if (isUnionField(fieldDef)) {
+      const member = matchUnionMember(fieldDef, prevValue);
+      if (member && member === matchUnionMember(fieldDef, nextValue)) {
+        walk(member, prevValue, nextValue, path);
+        return;
+      }
+    }
+
     if (!deepEqual(prevValue, nextValue)) {
       changed.push({ path, before: prevValue, after: nextValue });
     }
@@ -145,7 +201,12 @@ export function mergeSchemaData<Definition extends SchemaDefinition>(
       return baseValue;
     }
 
-    if (isArrayField(fieldDef)) {
+    const wrapped = wrappedField(fieldDef);
+    if (wrapped) {
+      return mergeField(wrapped, baseValue, updateValue);
+    }
+
+    if (isArrayField(fieldDef) || isPrimitiveArrayField(fieldDef)) {
       if (!Array.isArray(baseValue)) return updateValue;
       if (!Array.isArray(updateValue)) return baseValue;
 
@@ -175,6 +236,40 @@ export function mergeSchemaData<Definition extends SchemaDefinition>(
       return result;
     }
 
+    if (isRecordField(fieldDef)) {
+      if (!updateValue || typeof updateValue !== 'object') return updateValue;
+      const baseRecord = baseValue && typeof baseValue === 'object' ? (baseValue as Record<string, unknown>) : {};
+      const result: Record<string, unknown> = { ...baseRecord };
+      for (const [key, nestedValue] of Object.entries(updateValue as Record<string, unknown>)) {
+        result[key] = mergeField(fieldDef.value, baseRecord[key], nestedValue);
+      }
+      return result;
+    }
+
+    if (isDiscriminatedUnionField(fieldDef)) {
+      const variant = selectVariant(fieldDef, baseValue);
+      if (variant && variant === selectVariant(fieldDef, updateValue)) {
+        const result: Record<string, unknown> = { ...(baseValue as Record<string, unknown>) };
+        for (const [key, nestedField] of Object.entries(variant)) {
+          result[key] = mergeField(
+            nestedField,
+            (baseValue as Record<string, unknown>)[key],
+            (updateValue as Record<string, unknown>)[key]
+          );
+        }
+        return result;
+      }
+      return updateValue;
+    }
+
+    if (isUnionField(fieldDef)) {
+      const member = matchUnionMember(fieldDef, baseValue);
+      if (member && member === matchUnionMember(fieldDef, updateValue)) {
+        return mergeField(member, baseValue, updateValue);
+      }
+      return updateValue;
+    }
+
     return updateValue;
   }
 
@@ -234,6 +329,12 @@ export function searchSchemaData<Definition extends SchemaDefinition>(
   function visit(field: SchemaDefinition[string], value: unknown, path: string) {
     if (value === undefined || value === null) return;
 
+    const wrapped = wrappedField(field);
+    if (wrapped) {
+      visit(wrapped, value, path);
+      return;
+    }
+
     if (isTextField(field) || isEntityField(field) || isEnumField(field)) {
       const stringValue = String(value);
       if (containsMatch(stringValue, query, caseSensitive)) {
@@ -246,6 +347,14 @@ export function searchSchemaData<Definition extends SchemaDefinition>(
       return;
     }
 
+    if (isCitationField(field)) {
+      const quote = (value as { quote?: unknown }).quote;
+      if (typeof quote === 'string' && containsMatch(quote, query, caseSensitive)) {
+        results.push({ path, value, excerpt: buildExcerpt(quote, query, caseSensitive) });
+      }
+      return;
+    }
+
     if (isMarkdownField(field) && options.matchMarkdown !== false) {
       const stringValue = String(value);
       if (containsMatch(stringValue, query, caseSensitive)) {
@@ -271,6 +380,11 @@ export function searchSchemaData<Definition extends SchemaDefinition>(
     return;
   }
 
+    if (isPrimitiveArrayField(field) && Array.isArray(value)) {
+      value.forEach((item, index) => visit(field.item, item, joinPath(path, index)));
+      return;
+    }
+
     if (isObjectField(field) && typeof value === 'object' && value) {
       const child = value as Record<string, unknown>;
       for (const [key, nestedField] of Object.entries(field.shape) as Array<[
@@ -279,6 +393,29 @@ export function searchSchemaData<Definition extends SchemaDefinition>(
       ]>) {
         visit(nestedField, child[key], joinPath(path, key));
       }
+      return;
+    }
+
+    if (isRecordField(field) && typeof value === 'object') {
+      for (const [key, nestedValue] of Object.entries(value as Record<string, unknown>)) {
+        visit(field.value, nestedValue, joinPath(path, key));
+      }
+      return;
+    }
+
+    if (isUnionField(field)) {
+      const member = matchUnionMember(field, value);
+      if (member) visit(member, value, path);
+      return;
+    }
+
+    if (isDiscriminatedUnionField(field)) {
+      const variant = selectVariant(field, value);
+      if (!variant) return;
+      const child = value as Record<string, unknown>;
+      for (const [key, nestedField] of Object.entries(variant)) {
+        visit(nestedField, child[key], joinPath(path, key));
+      }
     }
   }
 
@@ -294,25 +431,52 @@ export interface EntityRecord {
   path: string;
   type: string;
   value: string;
+  entity?: KnownEntity;
+  mention?: { text: string; start: number; end: number };
 }
 
 export function extractEntities<Definition extends SchemaDefinition>(
   schema: Schema<Definition>,
   data: SchemaOutput<Definition>,
-  filterType?: string
+  filterType?: string,
+  registry?: EntityRegistry
 ): EntityRecord[] {
   const definition = schema.getDefinition();
+  const registries = [registry, schema.options.entities].filter((entry): entry is EntityRegistry => entry !== undefined);
   const results: EntityRecord[] = [];
 
   function visit(field: SchemaDefinition[string], value: unknown, path: string) {
     if (value === undefined || value === null) return;
 
+    const wrapped = wrappedField(field);
+    if (wrapped) {
+      visit(wrapped, value, path);
+      return;
+    }
+
     if (isEntityField(field)) {
       if (!filterType || field.entityType === filterType) {
+        const entity = findEntity(registries, field.entityType, String(value));
         results.push({
           path,
           value: String(value),
-          type: field.entityType
+          type: field.entityType,
+          ...(entity ? { entity } : {})
+        });
+      }
+      return;
+    }
+
+    if (isMarkdownField(field) && field.options.mentions && typeof value === 'string') {
+      for (const mention of findMentions(parseMarkdown(value, { mentions: true }))) {
+        if (filterType && mention.entityType !== filterType) continue;
+        const entity = findEntity(registries, mention.entityType!, mention.id!);
+        results.push({
+          path,
+          value: mention.id!,
+          type: mention.entityType!,
+          ...(entity ? { entity } : {}),
+          mention: { text: mention.value ?? '', start: mention.start, end: mention.end }
         });
       }
       return;
@@ -331,6 +495,11 @@ export function extractEntities<Definition extends SchemaDefinition>(
     return;
   }
 
+    if (isPrimitiveArrayField(field) && Array.isArray(value)) {
+      value.forEach((item, index) => visit(field.item, item, joinPath(path, index)));
+      return;
+    }
+
     if (isObjectField(field) && value && typeof value === 'object') {
       const child = value as Record<string, unknown>;
       for (const [key, nestedField] of Object.entries(field.shape) as Array<[
@@ -339,6 +508,29 @@ export function extractEntities<Definition extends SchemaDefinition>(
       ]>) {
         visit(nestedField, child[key], joinPath(path, key));
       }
+      return;
+    }
+
+    if (isRecordField(field) && typeof value === 'object') {
+      for (const [key, nestedValue] of Object.entries(value as Record<string, unknown>)) {
+        visit(field.value, nestedValue, joinPath(path, key));
+      }
+      return;
+    }
+
+    if (isUnionField(field)) {
+      const member = matchUnionMember(field, value);
+      if (member) visit(member, value, path);
+      return;
+    }
+
+    if (isDiscriminatedUnionField(field)) {
+      const variant = selectVariant(field, value);
+      if (!variant) return;
+      const child = value as Record<string, unknown>;
+      for (const [key, nestedField] of Object.entries(variant)) {
+        visit(nestedField, child[key], joinPath(path, key));
+      }
     }
   }
 
@@ -365,6 +557,12 @@ export function collectMarkdownFields<Definition extends SchemaDefinition>(
   function visit(field: SchemaDefinition[string], value: unknown, path: string) {
     if (value === undefined || value === null) return;
 
+    const wrapped = wrappedField(field);
+    if (wrapped) {
+      visit(wrapped, value, path);
+      return;
+    }
+
     if (isMarkdownField(field)) {
       const markdownField: MarkdownFieldDefinition<boolean> = field;
       records.push({
@@ -388,6 +586,11 @@ export function collectMarkdownFields<Definition extends SchemaDefinition>(
     return;
   }
 
+    if (isPrimitiveArrayField(field) && Array.isArray(value)) {
+      value.forEach((item, index) => visit(field.item, item, joinPath(path, index)));
+      return;
+    }
+
     if (isObjectField(field) && value && typeof value === 'object') {
       const child = value as Record<string, unknown>;
       for (const [key, nestedField] of Object.entries(field.shape) as Array<[
@@ -396,6 +599,29 @@ export function collectMarkdownFields<Definition extends SchemaDefinition>(
       ]>) {
         visit(nestedField, child[key], joinPath(path, key));
       }
+      return;
+    }
+
+    if (isRecordField(field) && typeof value === 'object') {
+      for (const [key, nestedValue] of Object.entries(value as Record<string, unknown>)) {
+        visit(field.value, nestedValue, joinPath(path, key));
+      }
+      return;
+    }
+
+    if (isUnionField(field)) {
+      const member = matchUnionMember(field, value);
+      if (member) visit(member, value, path);
+      return;
+    }
+
+    if (isDiscriminatedUnionField(field)) {
+      const variant = selectVariant(field, value);
+      if (!variant) return;
+      const child = value as Record<string, unknown>;
+      for (const [key, nestedField] of Object.entries(variant)) {
+        visit(nestedField, child[key], joinPath(path, key));
+      }
     }
   }
 
@@ -406,6 +632,95 @@ export function collectMarkdownFields<Definition extends SchemaDefinition>(
   return records;
 }
 
+export interface SerializeOptions {
+  omitDefaults?: boolean;
+}
+
+export function serializeSchemaData<Definition extends SchemaDefinition>(
+  schema: Schema<Definition>,
+  data: SchemaOutput<Definition>,
+  options: SerializeOptions = {}
+): Record<string, unknown> {
+  function serializeField(field: SchemaDefinition[string], value: unknown): unknown {
+    if (value === null) return null;
+
+    const wrapped = wrappedField(field);
+    if (wrapped) {
+      return serializeField(wrapped, value);
+    }
+
+    if (isDateField(field) && value instanceof Date) {
+      if (field.options.fromUnix) return Math.floor(value.getTime() / 1000);
+      const iso = value.toISOString();
+      return field.options.format === 'date' ? iso.slice(0, 10) : iso;
+    }
+
+    if (isDateRangeField(field) && value && typeof value === 'object') {
+      const { start, end } = value as { start: Date; end: Date };
+      const toIso = (bound: Date) => (field.options.format === 'date-time' ? bound.toISOString() : bound.toISOString().slice(0, 10));
+      return { start: toIso(start), end: toIso(end) };
+    }
+
+    if (isArrayField(field) && Array.isArray(value)) {
+      return value.map((item) => serializeDefinition(field.itemDefinition, item));
+    }
+
+    if (isPrimitiveArrayField(field) && Array.isArray(value)) {
+      return value.map((item) => serializeField(field.item, item));
+    }
+
+    if (isObjectField(field) && value && typeof value === 'object') {
+      return serializeDefinition(field.shape, value);
+    }
+
+    if (isRecordField(field) && value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([key, nestedValue]) => [
+          key,
+          serializeField(field.value, nestedValue)
+        ])
+      );
+    }
+
+    if (isUnionField(field)) {
+      const member = matchUnionMember(field, value);
+      return member ? serializeField(member, value) : value;
+    }
+
+    if (isDiscriminatedUnionField(field)) {
+      const variant = selectVariant(field, value);
+      return variant ? serializeDefinition(variant, value) : value;
+    }
+
+    return value;
+  }
+
+  function serializeDefinition(definition: SchemaDefinition, value: unknown): Record<string, unknown> {
+    const record = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+    const result: Record<string, unknown> = {};
+
+    for (const [key, fieldValue] of Object.entries(record)) {
+      const field = definition[key];
+      if (fieldValue === undefined) continue;
+
+      if (!field) {
+        result[key] = fieldValue;
+        continue;
+      }
+
+      if (options.omitDefaults && field.hasDefault && field.defaultValue && deepEqual(fieldValue, field.defaultValue())) {
+        continue;
+      }
+
+      result[key] = serializeField(field, fieldValue);
+    }
+
+    return result;
+  }
+
+  return serializeDefinition(schema.getDefinition(), data);
+}
+
 export function validateSchemaData<Definition extends SchemaDefinition>(
   schema: Schema<Definition>,
   data: SchemaOutput<Definition>
@@ -2,13 +2,26 @@ import type {
   AnyFieldDefinition,
   ArrayFieldDefinition,
   BooleanFieldDefinition,
+  CitationFieldDefinition,
+  ConfidenceFieldDefinition,
   DateFieldDefinition,
+  DateRangeFieldDefinition,
+  DurationFieldDefinition,
   EntityFieldDefinition,
   EnumFieldDefinition,
+  LazyFieldDefinition,
+  LiteralFieldDefinition,
   MarkdownFieldDefinition,
+  MoneyFieldDefinition,
   NumberFieldDefinition,
   ObjectFieldDefinition,
-  TextFieldDefinition
+  PrimitiveArrayFieldDefinition,
+  QuantityFieldDefinition,
+  RecordFieldDefinition,
+  LiteralValue,
+  TextFieldDefinition,
+  UnionFieldDefinition,
+  DiscriminatedUnionFieldDefinition
 } from './types';
 
 export function isTextField(field: AnyFieldDefinition): field is TextFieldDefinition<boolean> {
@@ -31,6 +44,14 @@ export function isDateField(field: AnyFieldDefinition): field is DateFieldDefini
   return field.kind === 'date';
 }
 
+export function isDurationField(field: AnyFieldDefinition): field is DurationFieldDefinition<boolean> {
+  return field.kind === 'duration';
+}
+
+export function isDateRangeField(field: AnyFieldDefinition): field is DateRangeFieldDefinition<boolean> {
+  return field.kind === 'dateRange';
+}
+
 export function isEnumField(field: AnyFieldDefinition): field is EnumFieldDefinition<readonly string[], boolean> {
   return field.kind === 'enum';
 }
@@ -39,10 +60,63 @@ export function isEntityField(field: AnyFieldDefinition): field is EntityFieldDe
   return field.kind === 'entity';
 }
 
+export function isLiteralField(field: AnyFieldDefinition): field is LiteralFieldDefinition<LiteralValue, boolean> {
+  return field.kind === 'literal';
+}
+
+export function isCitationField(field: AnyFieldDefinition): field is CitationFieldDefinition<boolean> {
+  return field.kind === 'citation';
+}
+
+export function isMoneyField(field: AnyFieldDefinition): field is MoneyFieldDefinition<string, boolean> {
+  return field.kind === 'money';
+}
+
+export function isQuantityField(field: AnyFieldDefinition): field is QuantityFieldDefinition<string, boolean> {
+  return field.kind === 'quantity';
+}
+
 export function isArrayField(field: AnyFieldDefinition): field is ArrayFieldDefinition<any, boolean> {
-  return field.kind === 'array';
+  return field.kind === 'array' && !('item' in field);
+}
+
+export function isPrimitiveArrayField(field: AnyFieldDefinition): field is PrimitiveArrayFieldDefinition<any, boolean> {
+  return field.kind === 'array' && 'item' in field;
 }
 
 export function isObjectField(field: AnyFieldDefinition): field is ObjectFieldDefinition<any, boolean> {
   return field.kind === 'object';
 }
+
+export function isRecordField(field: AnyFieldDefinition): field is RecordFieldDefinition<AnyFieldDefinition, string, boolean> {
+  return field.kind === 'record';
+}
+
+export function isUnionField(field: AnyFieldDefinition): field is UnionFieldDefinition<readonly AnyFieldDefinition[], boolean> {
+  return field.kind === 'union';
+}
+
+export function isDiscriminatedUnionField(
+  field: AnyFieldDefinition
+): field is DiscriminatedUnionFieldDefinition<string, Record<string, any>, boolean> {
+  return field.kind === 'discriminatedUnion';
+}
+
+export function isLazyField(field: AnyFieldDefinition): field is LazyFieldDefinition<unknown, boolean> {
+  return field.kind === 'lazy';
+}
+
+export function isConfidenceField(
+  field: AnyFieldDefinition
+): field is ConfidenceFieldDefinition<AnyFieldDefinition, boolean> {
+  return field.kind === 'confidence';
+}
+
+export function isFieldDefinition(value: unknown): value is AnyFieldDefinition {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { kind?: unknown }).kind === 'string' &&
+    typeof (value as { parse?: unknown }).parse === 'function'
+  );
+}
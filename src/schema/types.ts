@@ -4,20 +4,106 @@ export type FieldKind =
   | 'number'
   | 'boolean'
   | 'date'
+  | 'duration'
+  | 'dateRange'
   | 'enum'
   | 'entity'
+  | 'literal'
+  | 'citation'
+  | 'money'
+  | 'quantity'
   | 'array'
-  | 'object';
-
-export interface BaseFieldOptions {
+  | 'object'
+  | 'record'
+  | 'lazy'
+  | 'confidence'
+  | 'union'
+  | 'discriminatedUnion';
+
+export interface BaseFieldOptions<T = any> {
   description?: string;
   optional?: boolean;
   required?: boolean;
+  nullable?: boolean;
   note?: string;
+  coerce?: boolean;
+  refine?: Refinement<T> | Array<Refinement<T>>;
+}
+
+export interface RefinementIssue {
+  message: string;
+  path?: Array<string | number>;
+}
+
+export interface RefinementContext {
+  path: string[];
+  addIssue(issue: RefinementIssue | string): void;
+}
+
+export type RefinementResult = boolean | string | void;
+
+export type Refinement<T> = (
+  value: T,
+  ctx: RefinementContext
+) => RefinementResult | Promise<RefinementResult>;
+
+export interface CoercionRecord {
+  path: string[];
+  from: unknown;
+  to: unknown;
+}
+
+export interface ConfidenceRecord {
+  path: string[];
+  confidence: number;
+}
+
+export interface KnownEntity {
+  id: string;
+  type: string;
+  name?: string;
+  aliases?: string[];
+  [key: string]: unknown;
+}
+
+export type EntityResolution = KnownEntity | string | null | undefined;
+
+export type EntityResolver = (value: string, type: string) => EntityResolution | PromiseLike<EntityResolution>;
+
+export interface EntityRegistry {
+  entities?: KnownEntity[];
+  resolvers?: Record<string, EntityResolver>;
+}
+
+// A lookup that could not finish: its resolver rejected, or it was async during synchronous
+// parsing. Fields report it as an `unresolved_entity` issue.
+export class EntityLookupFailure {
+  constructor(public readonly message: string) {}
+}
+
+export interface EntityResolutionState {
+  registries: EntityRegistry[];
+  cache: Map<string, KnownEntity | EntityLookupFailure | null>;
+  lookups?: Array<Promise<void>>;
 }
 
+export type UnknownKeysPolicy = 'strip' | 'passthrough' | 'error';
+
 export interface ParseContext {
   path: string[];
+  unknownKeys?: UnknownKeysPolicy;
+  coerce?: boolean;
+  coercions?: CoercionRecord[];
+  confidences?: ConfidenceRecord[];
+  pending?: Array<Promise<ParseIssue[]>>;
+  source?: string;
+  entities?: EntityResolutionState;
+  skipRefinements?: boolean;
+}
+
+export interface ParseOptions {
+  source?: string;
+  entities?: EntityRegistry;
 }
 
 export interface ParseIssue {
@@ -31,7 +117,13 @@ export interface ParseIssue {
     | 'invalid_format'
     | 'too_small'
     | 'too_big'
-    | 'required';
+    | 'required'
+    | 'invalid_union'
+    | 'invalid_citation'
+    | 'invalid_markdown'
+    | 'unresolved_entity'
+    | 'unrecognized_keys'
+    | 'custom';
   expected?: string;
   received?: unknown;
 }
@@ -46,11 +138,15 @@ export interface PromptRenderOptions {
   style?: 'instructional' | 'technical';
 }
 
-export interface SchemaOptions {
+export interface SchemaOptions<Output = any> {
   name?: string;
   description?: string;
   version?: string;
   strict?: boolean;
+  unknownKeys?: UnknownKeysPolicy;
+  coerce?: boolean;
+  entities?: EntityRegistry;
+  rules?: Array<Refinement<Output>>;
   examples?: Array<Record<string, unknown>>;
 }
 
@@ -60,7 +156,7 @@ export interface SchemaPromptOptions extends PromptRenderOptions {
 }
 
 export type SchemaValidationResult<T> =
-  | { success: true; data: T }
+  | { success: true; data: T; coercions?: CoercionRecord[]; confidences?: ConfidenceRecord[] }
   | { success: false; issues: ParseIssue[] };
 
 export class SchemaError extends Error {
@@ -81,12 +177,14 @@ export interface BaseFieldDefinition<
   kind: Kind;
   description?: string;
   optional: IsOptional;
+  nullable: boolean;
   hasDefault: boolean;
   defaultValue?: () => TOutput;
   parse(value: unknown, ctx: ParseContext): FieldParseResult<TOutput>;
   toPrompt(name: string, options?: PromptRenderOptions): string;
   _type?: TOutput;
   _optional?: IsOptional;
+  _nullable?: boolean;
 }
 
 export type FieldDefinition<
@@ -95,23 +193,39 @@ export type FieldDefinition<
   IsOptional extends boolean = boolean
 > = BaseFieldDefinition<TOutput, Kind, IsOptional>;
 
+export type DefaultValue<T> = T | (() => T);
+
 export interface ArrayFieldOptions extends BaseFieldOptions {
+  default?: DefaultValue<unknown[]>;
   minItems?: number;
   maxItems?: number;
   uniqueBy?: string;
+  unknownKeys?: UnknownKeysPolicy;
 }
 
-export interface ObjectFieldOptions extends BaseFieldOptions {}
+export interface ObjectFieldOptions extends BaseFieldOptions {
+  default?: DefaultValue<Record<string, unknown>>;
+  unknownKeys?: UnknownKeysPolicy;
+}
 
-export interface TextFieldOptions extends BaseFieldOptions {
+export interface RecordFieldOptions extends BaseFieldOptions {
+  keys?: readonly string[];
+  keyPattern?: RegExp;
+  default?: DefaultValue<Record<string, unknown>>;
+}
+
+export type TextFormat = 'email' | 'url' | 'uuid' | 'phone' | 'hex-color' | 'slug';
+
+export interface TextFieldOptions extends BaseFieldOptions<string> {
+  format?: TextFormat;
   minLength?: number;
   maxLength?: number;
   pattern?: RegExp;
   placeholder?: string;
-  default?: string;
+  default?: DefaultValue<string>;
 }
 
-export interface MarkdownFieldOptions extends TextFieldOptions {
+export interface MarkdownFieldOptions extends Omit<TextFieldOptions, 'format'> {
   allowHtml?: boolean;
   allowedMarkdown?: {
     bold?: boolean;
@@ -123,36 +237,127 @@ export interface MarkdownFieldOptions extends TextFieldOptions {
     code?: boolean;
     quote?: boolean;
   };
+  stripDisallowed?: boolean;
+  requiredHeadings?: string[];
+  minHeadingDepth?: number;
+  maxHeadingDepth?: number;
+  minListItems?: number;
+  maxListItems?: number;
+  minParagraphs?: number;
+  maxParagraphs?: number;
+  mentions?: boolean | readonly string[];
   toolbar?: string[];
   livePreview?: boolean;
 }
 
-export interface NumberFieldOptions extends BaseFieldOptions {
+export interface NumberFieldOptions extends BaseFieldOptions<number> {
   min?: number;
   max?: number;
   precision?: number;
-  default?: number;
+  default?: DefaultValue<number>;
 }
 
-export interface BooleanFieldOptions extends BaseFieldOptions {
+export interface BooleanFieldOptions extends BaseFieldOptions<boolean> {
   labels?: { true: string; false: string };
-  default?: boolean;
+  default?: DefaultValue<boolean>;
 }
 
-export interface DateFieldOptions extends BaseFieldOptions {
+export interface DateFieldOptions extends BaseFieldOptions<Date> {
   format?: 'date' | 'date-time';
   fromUnix?: boolean;
-  default?: Date | string | number;
+  default?: DefaultValue<Date | string | number>;
+}
+
+export interface DurationFieldOptions extends BaseFieldOptions<string> {
+  min?: string;
+  max?: string;
+  default?: DefaultValue<string>;
+}
+
+export interface DateRange {
+  start: Date;
+  end: Date;
 }
 
-export interface EnumFieldOptions<T extends readonly string[]> extends BaseFieldOptions {
+export interface DateRangeFieldOptions extends BaseFieldOptions<DateRange> {
+  format?: 'date' | 'date-time';
+  default?: DefaultValue<DateRange | { start: string; end: string }>;
+}
+
+export interface EnumFieldOptions<T extends readonly string[]> extends BaseFieldOptions<T[number]> {
   labels?: Partial<Record<T[number], string>>;
-  default?: T[number];
+  aliases?: Record<string, T[number]>;
+  default?: DefaultValue<T[number]>;
 }
 
-export interface EntityFieldOptions extends BaseFieldOptions {
+export interface EntityFieldOptions extends BaseFieldOptions<string> {
   type: string;
-  default?: string;
+  default?: DefaultValue<string>;
+}
+
+export type LiteralValue = string | number | boolean;
+
+export interface LiteralFieldOptions<T extends LiteralValue = LiteralValue> extends BaseFieldOptions<T> {
+  autoFill?: boolean;
+}
+
+export interface LiteralFieldDefinition<
+  Value extends LiteralValue,
+  IsOptional extends boolean
+> extends FieldDefinition<Value, 'literal', IsOptional> {
+  options: LiteralFieldOptions<Value>;
+  value: Value;
+}
+
+export interface Citation {
+  quote: string;
+  start?: number;
+  end?: number;
+}
+
+export interface CitationFieldOptions extends BaseFieldOptions<Citation> {
+  requireOffsets?: boolean;
+}
+
+export interface CitationFieldDefinition<IsOptional extends boolean>
+  extends FieldDefinition<Citation, 'citation', IsOptional> {
+  options: CitationFieldOptions;
+}
+
+export interface MoneyValue<Currency extends string = string> {
+  amount: number;
+  currency: Currency;
+}
+
+export interface QuantityValue<Unit extends string = string> {
+  value: number;
+  unit: Unit;
+}
+
+export interface MoneyFieldOptions extends BaseFieldOptions<MoneyValue> {
+  currencies?: readonly string[];
+  min?: number;
+  max?: number;
+  locale?: string;
+  default?: DefaultValue<MoneyValue>;
+}
+
+export interface QuantityFieldOptions extends BaseFieldOptions<QuantityValue> {
+  units?: readonly string[];
+  min?: number;
+  max?: number;
+  locale?: string;
+  default?: DefaultValue<QuantityValue>;
+}
+
+export interface MoneyFieldDefinition<Currency extends string, IsOptional extends boolean>
+  extends FieldDefinition<MoneyValue<Currency>, 'money', IsOptional> {
+  options: MoneyFieldOptions;
+}
+
+export interface QuantityFieldDefinition<Unit extends string, IsOptional extends boolean>
+  extends FieldDefinition<QuantityValue<Unit>, 'quantity', IsOptional> {
+  options: QuantityFieldOptions;
 }
 
 export interface ArrayFieldDefinition<
@@ -163,6 +368,44 @@ export interface ArrayFieldDefinition<
   itemDefinition: ItemDefinition;
 }
 
+export interface PrimitiveArrayFieldDefinition<
+  Item extends AnyFieldDefinition,
+  IsOptional extends boolean
+> extends FieldDefinition<FieldOutput<Item>[], 'array', IsOptional> {
+  options: ArrayFieldOptions;
+  item: Item;
+}
+
+export type RecordOutput<Keys extends string, Value> = string extends Keys
+  ? Record<string, Value>
+  : Partial<Record<Keys, Value>>;
+
+export interface RecordFieldDefinition<
+  Value extends AnyFieldDefinition,
+  Keys extends string,
+  IsOptional extends boolean
+> extends FieldDefinition<RecordOutput<Keys, FieldOutput<Value>>, 'record', IsOptional> {
+  options: RecordFieldOptions;
+  value: Value;
+}
+
+export interface LazyFieldOptions extends BaseFieldOptions {
+  name?: string;
+  maxDepth?: number;
+}
+
+export interface LazyFieldDefinition<Output, IsOptional extends boolean>
+  extends FieldDefinition<Output, 'lazy', IsOptional> {
+  options: LazyFieldOptions;
+  resolve(): AnyFieldDefinition;
+}
+
+export interface ConfidenceFieldDefinition<Inner extends AnyFieldDefinition, IsOptional extends boolean>
+  extends FieldDefinition<FieldOutput<Inner>, 'confidence', IsOptional> {
+  options: BaseFieldOptions;
+  inner: Inner;
+}
+
 export interface ObjectFieldDefinition<
   Shape extends SchemaDefinition,
   IsOptional extends boolean
@@ -196,6 +439,16 @@ export interface DateFieldDefinition<IsOptional extends boolean>
   options: DateFieldOptions;
 }
 
+export interface DurationFieldDefinition<IsOptional extends boolean>
+  extends FieldDefinition<string, 'duration', IsOptional> {
+  options: DurationFieldOptions;
+}
+
+export interface DateRangeFieldDefinition<IsOptional extends boolean>
+  extends FieldDefinition<DateRange, 'dateRange', IsOptional> {
+  options: DateRangeFieldOptions;
+}
+
 export interface EnumFieldDefinition<
   Values extends readonly string[],
   IsOptional extends boolean
@@ -212,6 +465,37 @@ export interface EntityFieldDefinition<
   entityType: Type;
 }
 
+export interface UnionFieldOptions extends BaseFieldOptions {}
+
+export interface DiscriminatedUnionFieldOptions extends BaseFieldOptions {
+  unknownKeys?: UnknownKeysPolicy;
+}
+
+export interface UnionFieldDefinition<
+  Members extends readonly AnyFieldDefinition[],
+  IsOptional extends boolean
+> extends FieldDefinition<FieldOutput<Members[number]>, 'union', IsOptional> {
+  options: UnionFieldOptions;
+  members: Members;
+}
+
+export type DiscriminatedUnionOutput<
+  Key extends string,
+  Variants extends Record<string, SchemaDefinition>
+> = {
+  [Tag in keyof Variants & string]: Simplify<{ [K in Key]: Tag } & SchemaOutput<Variants[Tag]>>;
+}[keyof Variants & string];
+
+export interface DiscriminatedUnionFieldDefinition<
+  Key extends string,
+  Variants extends Record<string, SchemaDefinition>,
+  IsOptional extends boolean
+> extends FieldDefinition<DiscriminatedUnionOutput<Key, Variants>, 'discriminatedUnion', IsOptional> {
+  options: DiscriminatedUnionFieldOptions;
+  discriminator: Key;
+  variants: Record<keyof Variants & string, SchemaDefinition>;
+}
+
 export interface OpenAIToolOptions {
   name?: string;
   description?: string;
@@ -223,12 +507,13 @@ export interface AnthropicToolOptions {
 }
 
 export interface JsonSchema {
-  type: string;
+  type?: string | string[];
   description?: string;
   properties?: Record<string, JsonSchema>;
   required?: string[];
   items?: JsonSchema;
-  enum?: string[];
+  enum?: Array<string | null>;
+  const?: LiteralValue;
   minimum?: number;
   maximum?: number;
   minItems?: number;
@@ -237,13 +522,24 @@ export interface JsonSchema {
   maxLength?: number;
   pattern?: string;
   format?: string;
-  additionalProperties?: boolean;
+  additionalProperties?: boolean | JsonSchema;
+  patternProperties?: Record<string, JsonSchema>;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
 }
 
 export type AnyFieldDefinition =
   | FieldDefinition<any, FieldKind, boolean>
   | ArrayFieldDefinition<any, boolean>
-  | ObjectFieldDefinition<any, boolean>;
+  | PrimitiveArrayFieldDefinition<any, boolean>
+  | ObjectFieldDefinition<any, boolean>
+  | RecordFieldDefinition<any, string, boolean>
+  | LazyFieldDefinition<any, boolean>
+  | ConfidenceFieldDefinition<any, boolean>
+  | UnionFieldDefinition<readonly any[], boolean>
+  | DiscriminatedUnionFieldDefinition<string, any, boolean>;
 
 export type SchemaDefinition = Record<string, AnyFieldDefinition>;
 
@@ -257,8 +553,18 @@ type RequiredKeys<Definition extends SchemaDefinition> = {
 
 export type Simplify<T> = { [K in keyof T]: T[K] } & {};
 
-export type FieldOutput<F> = F extends FieldDefinition<infer T, any, any>
+export type DeepPartial<T> = T extends Date
   ? T
+  : T extends Array<infer Item>
+    ? Array<DeepPartial<Item>>
+    : T extends object
+      ? { [K in keyof T]?: DeepPartial<T[K]> }
+      : T;
+
+export type FieldOutput<F> = F extends FieldDefinition<infer T, any, any>
+  ? F extends { _nullable?: true }
+    ? T | null
+    : T
   : never;
 
 export type SchemaOutput<Definition extends SchemaDefinition> = Simplify<
@@ -1,4 +1,4 @@
-import type { BaseFieldOptions, ParseIssue } from './types';
+import type { BaseFieldOptions, DefaultValue, ParseContext, ParseIssue } from './types';
 
 export type DetermineOptional<O extends BaseFieldOptions> =
   O['optional'] extends true
@@ -8,11 +8,15 @@ export type DetermineOptional<O extends BaseFieldOptions> =
       : O['required'] extends false
         ? true
         : 'default' extends keyof O
-          ? Exclude<O['default'], undefined> extends never
+          ? undefined extends O['default']
             ? false
             : true
           : false;
 
+export type WithNullable<O extends BaseFieldOptions, Field> = O['nullable'] extends true
+  ? Field & { _nullable?: true }
+  : Field;
+
 export function resolveOptional(options: BaseFieldOptions): boolean {
   if (options.optional === true) return true;
   if (options.required === true) return false;
@@ -20,6 +24,15 @@ export function resolveOptional(options: BaseFieldOptions): boolean {
   return 'default' in options && (options as Record<string, unknown>).default !== undefined;
 }
 
+export function resolveDefault<T>(value: DefaultValue<T>): T {
+  return typeof value === 'function' ? (value as () => T)() : value;
+}
+
+export function describeRequirement(optional: boolean, nullable?: boolean): string {
+  const requirement = optional ? 'optional' : 'required';
+  return nullable ? `${requirement}, nullable` : requirement;
+}
+
 export function formatPath(path: string[]): string {
   return path.length === 0 ? '<root>' : path.join('.');
 }
@@ -37,3 +50,12 @@ export function issue(
 export function appendPath(path: string[], segment: string | number): string[] {
   return [...path, String(segment)];
 }
+
+export function shouldCoerce(options: BaseFieldOptions, ctx: ParseContext): boolean {
+  return options.coerce ?? ctx.coerce ?? false;
+}
+
+export function recordCoercion<T>(ctx: ParseContext, from: unknown, to: T): T {
+  ctx.coercions?.push({ path: ctx.path, from, to });
+  return to;
+}
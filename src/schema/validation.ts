@@ -1,17 +1,23 @@
 import type {
   AnyFieldDefinition,
+  BaseFieldOptions,
+  CoercionRecord,
+  ConfidenceRecord,
+  FieldParseResult,
   ParseContext,
   ParseIssue,
+  ParseOptions,
   SchemaDefinition,
   SchemaOptions,
   SchemaOutput,
-  SchemaValidationResult
+  SchemaValidationResult,
+  UnknownKeysPolicy
 } from './types';
 import { issue, appendPath } from './utils';
+import { runRefinements } from './refinements';
+import { createEntityState } from './entities';
 
-export interface ParseDefinitionOptions {
-  strict?: boolean;
-}
+export type ParseDefinitionOptions = Omit<ParseContext, 'path'>;
 
 function ensureObject(value: unknown, path: string[]): { success: true; value: Record<string, unknown> } | {
   success: false;
@@ -26,6 +32,37 @@ function ensureObject(value: unknown, path: string[]): { success: true; value: R
   return { success: true, value: value as Record<string, unknown> };
 }
 
+export function parseFieldValue(
+  field: AnyFieldDefinition,
+  raw: unknown,
+  path: string[],
+  options: ParseDefinitionOptions = {}
+): FieldParseResult<unknown> {
+  if (raw === null && field.nullable) {
+    return { success: true, value: null };
+  }
+
+  if (raw === null && !field.optional) {
+    return { success: false, issues: [issue(path, 'Field cannot be null', 'invalid_type', undefined, null)] };
+  }
+
+  if (raw === undefined || raw === null) {
+    if (field.optional) {
+      return { success: true, value: field.hasDefault && field.defaultValue ? field.defaultValue() : undefined };
+    }
+    return { success: false, issues: [issue(path, 'Field is required', 'required')] };
+  }
+
+  const parseResult = field.parse(raw, { ...options, path });
+  if (!parseResult.success || options.skipRefinements) {
+    return parseResult;
+  }
+
+  const { refine } = (field as { options?: BaseFieldOptions }).options ?? {};
+  const issues = runRefinements(refine, parseResult.value, path, options.pending);
+  return issues.length > 0 ? { success: false, issues } : parseResult;
+}
+
 export function parseDefinition<Definition extends SchemaDefinition>(
   definition: Definition,
   value: unknown,
@@ -46,31 +83,24 @@ export function parseDefinition<Definition extends SchemaDefinition>(
     const fieldPath = appendPath(path, key);
     const raw = record[key];
 
-    if (raw === undefined || raw === null) {
-      if (field.optional) {
-        if (field.hasDefault && field.defaultValue) {
-          result[key] = field.defaultValue();
-        }
-        continue;
-      }
-
-      issues.push(issue(fieldPath, 'Field is required', 'required'));
-      continue;
-    }
-
-    const parseResult = (field as AnyFieldDefinition).parse(raw, { path: fieldPath });
-    if (parseResult.success) {
-      result[key] = parseResult.value;
-    } else {
-      issues.push(...parseResult.issues);
+    const parsed = parseFieldValue(field, raw, fieldPath, options);
+    if (!parsed.success) {
+      issues.push(...parsed.issues);
+    } else if (parsed.value !== undefined) {
+      result[key] = parsed.value;
     }
   }
 
-  if (options.strict) {
-    for (const key of Object.keys(record)) {
-      if (!(key in definition)) {
-        issues.push(issue(appendPath(path, key), 'Unexpected field', 'invalid_type'));
-      }
+  const unknownKeys = Object.keys(record).filter((key) => !(key in definition));
+  if (unknownKeys.length > 0) {
+    if (options.unknownKeys === 'error') {
+      issues.push(
+        issue(path, `Unrecognized key(s): ${unknownKeys.join(', ')}`, 'unrecognized_keys', undefined, unknownKeys)
+      );
+    } else if (options.unknownKeys === 'passthrough') {
+      unknownKeys.forEach((key) => {
+        result[key] = record[key];
+      });
     }
   }
 
@@ -81,10 +111,99 @@ export function parseDefinition<Definition extends SchemaDefinition>(
   return { success: true, data: result as SchemaOutput<Definition> };
 }
 
+function resolveUnknownKeys(options: SchemaOptions): UnknownKeysPolicy {
+  return options.unknownKeys ?? (options.strict ? 'error' : 'strip');
+}
+
+function finalizeRoot<T>(
+  result: SchemaValidationResult<T>,
+  coercions: CoercionRecord[],
+  confidences: ConfidenceRecord[]
+): SchemaValidationResult<T> {
+  if (!result.success) return result;
+  return {
+    ...result,
+    ...(coercions.length > 0 ? { coercions } : {}),
+    ...(confidences.length > 0 ? { confidences } : {})
+  };
+}
+
 export function parseRoot<Definition extends SchemaDefinition>(
   definition: Definition,
   value: unknown,
-  options: SchemaOptions
+  options: SchemaOptions,
+  parseOptions: ParseOptions = {}
 ): SchemaValidationResult<SchemaOutput<Definition>> {
-  return parseDefinition(definition, value, [], { strict: options.strict });
+  const coercions: CoercionRecord[] = [];
+  const confidences: ConfidenceRecord[] = [];
+  const result = parseDefinition(definition, value, [], {
+    unknownKeys: resolveUnknownKeys(options),
+    coerce: options.coerce,
+    coercions,
+    confidences,
+    source: parseOptions.source,
+    entities: createEntityState([parseOptions.entities, options.entities], false)
+  });
+
+  if (result.success) {
+    const issues = runRefinements(options.rules, result.data, []);
+    if (issues.length > 0) {
+      return { success: false, issues };
+    }
+  }
+
+  return finalizeRoot(result, coercions, confidences);
+}
+
+export async function parseRootAsync<Definition extends SchemaDefinition>(
+  definition: Definition,
+  value: unknown,
+  options: SchemaOptions,
+  parseOptions: ParseOptions = {}
+): Promise<SchemaValidationResult<SchemaOutput<Definition>>> {
+  const entities = createEntityState([parseOptions.entities, options.entities], true);
+  const run = (skipRefinements: boolean) => {
+    const coercions: CoercionRecord[] = [];
+    const confidences: ConfidenceRecord[] = [];
+    const pending: Array<Promise<ParseIssue[]>> = [];
+    const result = parseDefinition(definition, value, [], {
+      unknownKeys: resolveUnknownKeys(options),
+      coerce: options.coerce,
+      coercions,
+      confidences,
+      pending,
+      source: parseOptions.source,
+      entities,
+      skipRefinements
+    });
+    return { result, coercions, confidences, pending };
+  };
+
+  // Async entity resolvers can't change values that were already parsed, so their lookups are
+  // started by parsing without refinements until every entity is answered from the cache.
+  // Refinements then run once, on the final values.
+  if (entities?.registries.some((registry) => registry.resolvers)) {
+    for (;;) {
+      entities.lookups = [];
+      run(true);
+      if (entities.lookups.length === 0) break;
+      await Promise.all(entities.lookups);
+    }
+  }
+
+  const { result, coercions, confidences, pending } = run(false);
+  const issues = result.success ? [] : [...result.issues];
+  issues.push(...(await Promise.all(pending)).flat());
+
+  if (result.success && issues.length === 0) {
+    const rulePending: Array<Promise<ParseIssue[]>> = [];
+    issues.push(...runRefinements(options.rules, result.data, [], rulePending));
+    issues.push(...(await Promise.all(rulePending)).flat());
+  }
+
+  if (issues.length > 0) {
+    return { success: false, issues };
+  }
+
+  return finalizeRoot(result, coercions, confidences);
 }
@@ -11,8 +11,20 @@ import {
   md,
   enumType,
   array,
+  lazy,
   entity,
-  boolean
+  literal,
+  boolean,
+  citation,
+  dateRange,
+  duration,
+  money,
+  number,
+  quantity,
+  record,
+  withConfidence,
+  discriminatedUnion,
+  type SchemaDefinition
 } from '../src';
 
 const DemoSchema = defineSchema({
@@ -118,4 +130,171 @@ describe('React helpers', () => {
     expect(html).toContain('DRAFT SUMMARY');
     expect(html).not.toContain('<pre>');
   });
+
+  test('renders null values for nullable fields', () => {
+    const NullableSchema = defineSchema({
+      title: text(),
+      owner: entity('person', { nullable: true }),
+      status: enumType(['open', 'closed'] as const, { nullable: true })
+    });
+    const data = { title: 'Launch', owner: null, status: null };
+
+    const html = renderToString(<SchemaRenderer schema={NullableSchema} data={data} />);
+    expect(html).toContain('llm-schema-null');
+
+    const editor = renderToString(<SchemaEditor schema={NullableSchema} data={data} onChange={() => void 0} />);
+    expect(editor).toContain('<option value="" selected="">None</option>');
+  });
+
+  test('renders arrays of primitive values item by item', () => {
+    const TagSchema = defineSchema({
+      tags: array(text()),
+      reviewers: array(entity('person'))
+    });
+    const data = { tags: ['docs', 'release'], reviewers: ['alice'] };
+
+    const html = renderToString(<SchemaRenderer schema={TagSchema} data={data} />);
+    expect(html).toContain('data-path="tags.1"');
+    expect(html).toContain('<code>alice</code>');
+
+    const editor = renderToString(<SchemaEditor schema={TagSchema} data={data} onChange={() => void 0} />);
+    expect(editor).toContain('value="release"');
+  });
+
+  test('renders record entries under their keys', () => {
+    const TalkSchema = defineSchema({ talkTime: record(number()) });
+    const html = renderToString(<SchemaRenderer schema={TalkSchema} data={{ talkTime: { alice: 12, bob: 3 } }} />);
+    expect(html).toContain('data-kind="record"');
+    expect(html).toContain('data-path="talkTime.bob"');
+  });
+
+  test('SchemaEditor picks input types from text formats', () => {
+    const ContactSchema = defineSchema({ email: text({ format: 'email' }), phone: text({ format: 'phone' }) });
+    const editor = renderToString(
+      <SchemaEditor schema={ContactSchema} data={{ email: 'ada@example.com', phone: '+14155550123' }} onChange={() => void 0} />
+    );
+    expect(editor).toContain('type="email"');
+    expect(editor).toContain('type="tel"');
+
+    const ThemeSchema = defineSchema({ accent: text({ format: 'hex-color' }) });
+    const themeEditor = renderToString(<SchemaEditor schema={ThemeSchema} data={{ accent: '#ABC' }} onChange={() => void 0} />);
+    expect(themeEditor).toContain('<input type="text" value="#ABC"/>');
+  });
+
+  test('renders citations as hoverable references', () => {
+    const EvidenceSchema = defineSchema({ evidence: citation() });
+    const html = renderToString(
+      <SchemaRenderer schema={EvidenceSchema} data={{ evidence: { quote: 'ship on Friday', start: 12, end: 26 } }} />
+    );
+    expect(html).toContain('class="llm-schema-citation"');
+    expect(html).toContain('title="Source, characters 12–26"');
+    expect(html).toContain('ship on Friday');
+  });
+
+  test('formats money and quantity values with the field locale', () => {
+    const DealSchema = defineSchema({
+      arr: money({ currencies: ['USD', 'EUR'] as const, locale: 'en-US' }),
+      storage: quantity({ locale: 'en-US' })
+    });
+    const data = { arr: { amount: 12000, currency: 'USD' as const }, storage: { value: 1500.5, unit: 'GB' } };
+
+    const html = renderToString(<SchemaRenderer schema={DealSchema} data={data} />);
+    expect(html).toContain('$12,000.00');
+    expect(html).toContain('1,500.5 GB');
+
+    const editor = renderToString(<SchemaEditor schema={DealSchema} data={data} onChange={() => void 0} />);
+    expect(editor).toContain('type="number"');
+    expect(editor).toContain('<option value="EUR">EUR</option>');
+  });
+
+  test('renders durations and date ranges with matching editor widgets', () => {
+    const MeetingSchema = defineSchema({ length: duration(), period: dateRange() });
+    const data = {
+      length: 'PT1H30M',
+      period: { start: new Date('2025-07-01T00:00:00Z'), end: new Date('2025-09-30T00:00:00Z') }
+    };
+
+    const html = renderToString(<SchemaRenderer schema={MeetingSchema} data={data} />);
+    expect(html).toContain('<time dateTime="PT1H30M">1 hour 30 minutes</time>');
+    expect(html).toContain('class="llm-schema-date-range"');
+    expect(html).toContain('dateTime="2025-09-30T00:00:00.000Z"');
+
+    const editor = renderToString(<SchemaEditor schema={MeetingSchema} data={data} onChange={() => void 0} />);
+    expect(editor).toContain('placeholder="PT45M"');
+    expect(editor).toContain('type="date" aria-label="Start"');
+    expect(editor).toContain('value="2025-09-30"');
+  });
+
+  test('renders recursive data through lazy fields', () => {
+    interface Comment {
+      author: string;
+      replies?: Comment[];
+    }
+    const comment = lazy<Comment>((): SchemaDefinition => ({ author: text(), replies: array(comment, { optional: true }) }));
+    const ThreadSchema = defineSchema({ comments: array(comment) });
+
+    const html = renderToString(
+      <SchemaRenderer
+        schema={ThreadSchema}
+        data={{ comments: [{ author: 'Ada', replies: [{ author: 'Grace', replies: [{ author: 'Linus' }] }] }] }}
+      />
+    );
+    expect(html).toContain('data-path="comments.0.replies.0.replies.0.author"');
+    expect(html).toContain('Linus');
+  });
+
+  test('flags low-confidence values', () => {
+    const TaskSchema = defineSchema({ owner: withConfidence(text()), status: withConfidence(text()) });
+    const result = TaskSchema.safeParse({
+      owner: { value: 'Ada', confidence: 0.3 },
+      status: { value: 'Done', confidence: 0.95 }
+    });
+    if (!result.success) throw new Error('Expected confidence data to parse');
+
+    const html = renderToString(
+      <SchemaRenderer schema={TaskSchema} data={result.data} config={{ confidences: result.confidences }} />
+    );
+    expect(html).toContain('class="llm-schema-field llm-schema-field--low-confidence"');
+    expect(html).toContain('title="Low confidence: 30%"');
+    expect(html).toContain('title="Confidence: 95%"');
+    expect(html.match(/llm-schema-field--low-confidence/g)).toHaveLength(1);
+  });
+
+  test('shows enum labels instead of raw values', () => {
+    const TicketSchema = defineSchema({
+      priority: enumType(['p0', 'p1'] as const, { labels: { p0: 'Critical outage', p1: 'Degraded service' } })
+    });
+
+    const html = renderToString(<SchemaRenderer schema={TicketSchema} data={{ priority: 'p0' }} />);
+    expect(html).toContain('<span>Critical outage</span>');
+
+    const editor = renderToString(<SchemaEditor schema={TicketSchema} data={{ priority: 'p1' }} onChange={() => void 0} />);
+    expect(editor).toContain('<option value="p1" selected="">Degraded service</option>');
+  });
+
+  test('shows literal fields as their fixed value', () => {
+    const NoteSchema = defineSchema({ kind: literal('meeting_notes'), title: text() });
+    const data = { kind: 'meeting_notes' as const, title: 'Sync' };
+
+    const html = renderToString(<SchemaRenderer schema={NoteSchema} data={data} />);
+    expect(html).toContain('<code>meeting_notes</code>');
+
+    const editor = renderToString(<SchemaEditor schema={NoteSchema} data={data} onChange={() => void 0} />);
+    expect(editor).toContain('<input type="text" readOnly="" value="meeting_notes"/>');
+  });
+
+  test('renders discriminated unions with a variant picker in the editor', () => {
+    const EventSchema = defineSchema({
+      event: discriminatedUnion('type', { call: { minutes: number() }, email: { subject: text() } })
+    });
+    const data = { event: { type: 'call' as const, minutes: 30 } };
+
+    const html = renderToString(<SchemaRenderer schema={EventSchema} data={data} />);
+    expect(html).toContain('data-kind="variant" data-path="event.type"');
+    expect(html).toContain('<span>call</span>');
+    expect(html).toContain('data-path="event.minutes"');
+
+    const editor = renderToString(<SchemaEditor schema={EventSchema} data={data} onChange={() => void 0} />);
+    expect(editor).toContain('<option value="call" selected="">call</option><option value="email">email</option>');
+  });
 });
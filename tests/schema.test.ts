@@ -2,14 +2,30 @@ import { describe, expect, test } from 'vitest';
 import {
   array,
   boolean,
+  citation,
   date,
+  dateRange,
   defineSchema,
+  duration,
   entity,
   enumType,
+  fromJsonSchema,
+  lazy,
+  literal,
   md,
+  money,
+  named,
   number,
+  object,
+  quantity,
+  record,
+  repairJson,
   text,
+  union,
+  discriminatedUnion,
+  withConfidence,
   type InferSchema,
+  type SchemaDefinition,
   type SchemaValidationResult
 } from '../src';
 
@@ -217,3 +233,1907 @@ describe('llm-schema core', () => {
     expect(entities).toHaveLength(2);
   });
 });
+
+describe('parseWithRepair', () => {
+  const RepairSchema = defineSchema({
+    title: text(),
+    tags: array({ schema: { label: text() } })
+  });
+
+  test('returns no repairs for valid JSON', () => {
+    const result = RepairSchema.parseWithRepair('{"title":"Sync","tags":[]}');
+    expect(result.success).toBe(true);
+    expect(result.repairs).toEqual([]);
+  });
+
+  test('strips code fences and surrounding prose', () => {
+    const response = 'Here is the result:\n```json\n{"title": "Sync", "tags": [{"label": "ops"}]}\n```\nLet me know!';
+    const result = RepairSchema.parseWithRepair(response);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.tags[0].label).toBe('ops');
+    }
+    expect(result.repairs.map((repair) => repair.strategy)).toEqual(['codeFence']);
+
+    const prose = RepairSchema.parseWithRepair('Sure! {"title": "Sync", "tags": []} Hope this helps.');
+    expect(prose.success).toBe(true);
+    expect(prose.repairs.map((repair) => repair.strategy)).toEqual(['surroundingText']);
+  });
+
+  test('fixes single quotes, trailing commas and truncated output', () => {
+    const result = RepairSchema.parseWithRepair("{'title': 'Bob\\'s \"sync\"', 'tags': [{'label': 'ops',},],}");
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.title).toBe('Bob\'s "sync"');
+    }
+    expect(result.repairs.map((repair) => repair.strategy)).toEqual(['singleQuotes', 'trailingCommas']);
+
+    const truncated = RepairSchema.parseWithRepair('{"title": "Sync", "tags": [{"label": "o');
+    expect(truncated.success).toBe(true);
+    if (truncated.success) {
+      expect(truncated.data.tags).toEqual([{ label: 'o' }]);
+    }
+    expect(truncated.repairs.map((repair) => repair.strategy)).toEqual(['unclosedBrackets']);
+  });
+
+  test('closes truncated nested objects instead of cutting them at the last brace', () => {
+    const nested = repairJson('{"a": {"b": 1}, "c": 2');
+    expect(nested.success && nested.value).toEqual({ a: { b: 1 }, c: 2 });
+    expect(nested.repairs.map((repair) => repair.strategy)).toEqual(['unclosedBrackets']);
+
+    const prose = repairJson('Sure! {"a": {"b": 1}, "c": "x');
+    expect(prose.success && prose.value).toEqual({ a: { b: 1 }, c: 'x' });
+    expect(prose.repairs.map((repair) => repair.strategy)).toEqual(['surroundingText', 'unclosedBrackets']);
+  });
+
+  test('supports custom strategies and disabling built-ins', () => {
+    const smartQuotes = {
+      name: 'smartQuotes',
+      description: 'Replaced typographic quotes',
+      repair: (input: string) => input.replace(/[“”]/g, '"')
+    };
+
+    const result = RepairSchema.parseWithRepair('{“title”: “Sync”, “tags”: []}', { strategies: [smartQuotes] });
+    expect(result.success).toBe(true);
+    expect(result.repairs).toEqual([{ strategy: 'smartQuotes', description: 'Replaced typographic quotes' }]);
+
+    const disabled = RepairSchema.parseWithRepair('{"title": "Sync", "tags": [],}', {
+      repairs: { trailingCommas: false }
+    });
+    expect(disabled.success).toBe(false);
+    if (!disabled.success) {
+      expect(disabled.issues[0].code).toBe('invalid_format');
+    }
+  });
+});
+
+describe('coercion', () => {
+  const CoercedSchema = defineSchema(
+    {
+      count: number(),
+      done: boolean(),
+      priority: enumType(['high', 'medium', 'low'] as const, { aliases: { urgent: 'high' } }),
+      label: text(),
+      strictCount: number({ coerce: false, optional: true })
+    },
+    { coerce: true }
+  );
+
+  test('coerces scalar values and reports each coercion', () => {
+    const result = CoercedSchema.safeParse({ count: ' 5 ', done: 'yes', priority: 'High', label: 42 });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual({ count: 5, done: true, priority: 'high', label: '42' });
+      expect(result.coercions).toEqual([
+        { path: ['count'], from: ' 5 ', to: 5 },
+        { path: ['done'], from: 'yes', to: true },
+        { path: ['priority'], from: 'High', to: 'high' },
+        { path: ['label'], from: 42, to: '42' }
+      ]);
+    }
+  });
+
+  test('maps enum aliases and respects per-field overrides', () => {
+    const aliased = CoercedSchema.safeParse({ count: 1, done: false, priority: 'URGENT', label: 'x' });
+    expect(aliased.success && aliased.data.priority).toBe('high');
+
+    const overridden = CoercedSchema.safeParse({ count: 1, done: false, priority: 'low', label: 'x', strictCount: '3' });
+    expect(overridden.success).toBe(false);
+    if (!overridden.success) {
+      expect(overridden.issues[0].path).toEqual(['strictCount']);
+    }
+  });
+
+  test('is off by default', () => {
+    const result = MeetingNotesSchema.safeParse({
+      title: 'Sync',
+      actionItems: [{ task: 'Ship', owner: 'alice', completed: 'true' }]
+    });
+    expect(result.success).toBe(false);
+
+    const optedIn = defineSchema({
+      items: array({ coerce: true, schema: { done: boolean() } })
+    }).safeParse({ items: [{ done: 'no' }] });
+    expect(optedIn.success && optedIn.data.items[0].done).toBe(false);
+    expect(optedIn.success && optedIn.coercions?.[0].path).toEqual(['items', '0', 'done']);
+  });
+});
+
+describe('parsePartial', () => {
+  const full = JSON.stringify({
+    title: 'Sprint Review',
+    summary: 'Shipped **search**.',
+    actionItems: [
+      { task: 'Draft notes', owner: 'alice' },
+      { task: 'Email summary', owner: 'bob', completed: true }
+    ],
+    durationMinutes: 45
+  });
+
+  test('returns typed data and per-path status for a truncated prefix', () => {
+    const prefix = full.slice(0, full.indexOf('Email') + 3);
+    const result = MeetingNotesSchema.parsePartial(prefix);
+
+    expect(result.complete).toBe(false);
+    expect(result.data.title).toBe('Sprint Review');
+    expect(result.data.actionItems?.[0]).toEqual({ task: 'Draft notes', owner: 'alice', completed: false });
+    expect(result.data.actionItems?.[1]).toEqual({ task: 'Ema' });
+    expect(result.status).toMatchObject({
+      title: 'complete',
+      summary: 'complete',
+      actionItems: 'in_progress',
+      'actionItems.0': 'complete',
+      'actionItems.1': 'in_progress',
+      'actionItems.1.task': 'in_progress',
+      'actionItems.1.owner': 'missing',
+      durationMinutes: 'missing'
+    });
+    expect(result.issues).toEqual([]);
+  });
+
+  test('accepts chunks and finishes with the full parse result', () => {
+    const chunks = ['```json\n{"title": "Spri', full.slice(full.indexOf('nt Review')), '\n```'];
+    const partial = MeetingNotesSchema.parsePartial(chunks.slice(0, 1));
+    expect(partial.data).toEqual({ title: 'Spri' });
+
+    const result = MeetingNotesSchema.parsePartial(chunks);
+    expect(result.complete).toBe(true);
+    expect(result.data).toEqual(MeetingNotesSchema.parse(full));
+  });
+
+  test('treats trailing numbers and literals as in progress', () => {
+    const result = MeetingNotesSchema.parsePartial('{"durationMinutes": 4');
+    expect(result.data.durationMinutes).toBeUndefined();
+    expect(result.status.durationMinutes).toBe('in_progress');
+
+    const invalid = MeetingNotesSchema.parsePartial('{"title": 12, "durationMinutes": tr');
+    expect(invalid.issues[0].path).toEqual(['title']);
+    expect(invalid.status.durationMinutes).toBe('in_progress');
+  });
+
+  test('leaves complete array items that fail validation undefined', () => {
+    const result = MeetingNotesSchema.parsePartial(
+      '{"actionItems": [{"task": 3, "owner": "alice"}, {"task": "Email summary", "owner": "bob"}, {"task": "Dr'
+    );
+
+    const items = result.data.actionItems ?? [];
+    expect(items).toEqual([undefined, { task: 'Email summary', owner: 'bob', completed: false }, { task: 'Dr' }]);
+    expect(items.map((_, index) => result.status[`actionItems.${index}`])).toEqual(['failed', 'complete', 'in_progress']);
+    expect(items[1]?.task).toBe('Email summary');
+    expect(result.issues[0].path).toEqual(['actionItems', '0', 'task']);
+  });
+});
+
+describe('refinements', () => {
+  const ProjectSchema = defineSchema(
+    {
+      startDate: date(),
+      endDate: date(),
+      participants: array({ schema: { name: entity('person') } }),
+      actionItems: array({
+        schema: {
+          task: text({ refine: (task) => task.trim().length > 3 || 'Task is too short' }),
+          owner: entity('person')
+        }
+      })
+    },
+    {
+      rules: [
+        (data) => data.endDate >= data.startDate || 'endDate must be after startDate',
+        (data, ctx) => {
+          const names = new Set(data.participants.map((participant) => participant.name));
+          data.actionItems.forEach((item, index) => {
+            if (!names.has(item.owner)) {
+              ctx.addIssue({ message: 'Owner must be a participant', path: ['actionItems', index, 'owner'] });
+            }
+          });
+        }
+      ]
+    }
+  );
+
+  const valid = {
+    startDate: '2025-01-01',
+    endDate: '2025-01-05',
+    participants: [{ name: 'alice' }],
+    actionItems: [{ task: 'Ship release', owner: 'alice' }]
+  };
+
+  test('reports field refinement issues with their path', () => {
+    const result = ProjectSchema.safeParse({ ...valid, actionItems: [{ task: 'Go', owner: 'alice' }] });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues).toEqual([
+        expect.objectContaining({ path: ['actionItems', '0', 'task'], code: 'custom', message: 'Task is too short' })
+      ]);
+    }
+  });
+
+  test('runs schema-level rules after a successful parse', () => {
+    expect(ProjectSchema.safeParse(valid).success).toBe(true);
+
+    const result = ProjectSchema.safeParse({
+      ...valid,
+      endDate: '2024-12-31',
+      actionItems: [{ task: 'Ship release', owner: 'bob' }]
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map((entry) => [entry.path.join('.'), entry.message])).toEqual([
+        ['', 'endDate must be after startDate'],
+        ['actionItems.0.owner', 'Owner must be a participant']
+      ]);
+    }
+  });
+
+  test('supports async refinements through safeParseAsync', async () => {
+    const taken = new Set(['launch']);
+    const SlugSchema = defineSchema({
+      slug: text({ refine: async (slug) => !taken.has(slug) || `Slug "${slug}" is taken` })
+    });
+
+    const sync = SlugSchema.safeParse({ slug: 'roadmap' });
+    expect(sync.success).toBe(false);
+    if (!sync.success) {
+      expect(sync.issues[0]).toMatchObject({ path: ['slug'], code: 'custom' });
+      expect(sync.issues[0].message).toMatch(/safeParseAsync/);
+    }
+
+    const result = await SlugSchema.safeParseAsync({ slug: 'launch' });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues[0]).toMatchObject({ path: ['slug'], code: 'custom' });
+    }
+
+    await expect(SlugSchema.parseAsync({ slug: 'roadmap' })).resolves.toEqual({ slug: 'roadmap' });
+  });
+
+  test('reports async refinements during synchronous parsing without leaking rejections', () => {
+    const RejectingSchema = defineSchema({
+      slug: text({ refine: () => Promise.reject(new Error('lookup failed')) })
+    });
+
+    const result = RejectingSchema.safeParse({ slug: 'launch' });
+    expect(result.success).toBe(false);
+    expect(() => RejectingSchema.parse({ slug: 'launch' })).toThrowError(/Failed to parse schema data/);
+  });
+
+  test('reports async refinements and rules that reject as issues', async () => {
+    const RejectingSchema = defineSchema({
+      slug: text({
+        refine: async () => {
+          throw new Error('db down');
+        }
+      })
+    });
+
+    const result = await RejectingSchema.safeParseAsync({ slug: 'launch' });
+    expect(!result.success && result.issues).toEqual([
+      { path: ['slug'], message: 'Refinement failed: db down', code: 'custom' }
+    ]);
+
+    const Rules = defineSchema({ slug: text() }, { rules: [() => Promise.reject('quota exceeded')] });
+    const ruled = await Rules.safeParseAsync({ slug: 'launch' });
+    expect(!ruled.success && ruled.issues).toEqual([{ path: [], message: 'Refinement failed: quota exceeded', code: 'custom' }]);
+  });
+});
+
+describe('unknown keys', () => {
+  const definition = {
+    title: text(),
+    owner: object({ schema: { name: text() } }),
+    items: array({ unknownKeys: 'passthrough', schema: { label: text() } })
+  };
+
+  const payload = {
+    title: 'Sync',
+    extra: true,
+    owner: { name: 'alice', email: 'alice@example.com' },
+    items: [{ label: 'ops', color: 'red' }]
+  };
+
+  test('strips unknown keys at every level by default', () => {
+    const result = defineSchema(definition, { unknownKeys: 'strip' }).parse(payload);
+    expect(result).toEqual({ title: 'Sync', owner: { name: 'alice' }, items: [{ label: 'ops', color: 'red' }] });
+  });
+
+  test('reports unrecognized keys in nested objects when set to error', () => {
+    const result = defineSchema(definition, { strict: true }).safeParse(payload);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues).toEqual([
+        expect.objectContaining({ path: ['owner'], code: 'unrecognized_keys', received: ['email'] }),
+        expect.objectContaining({ path: [], code: 'unrecognized_keys', received: ['extra'] })
+      ]);
+    }
+  });
+
+  test('keeps unknown keys with passthrough', () => {
+    const result = defineSchema(definition, { unknownKeys: 'passthrough' }).parse(payload);
+    expect(result).toMatchObject({ extra: true, owner: { email: 'alice@example.com' } });
+  });
+});
+
+describe('nullable fields', () => {
+  const ContactSchema = defineSchema({
+    name: text(),
+    phone: text({ nullable: true }),
+    company: text({ optional: true }),
+    tier: enumType(['gold', 'silver'] as const, { nullable: true, optional: true })
+  });
+
+  test('keeps explicit nulls for nullable fields and rejects them elsewhere', () => {
+    const parsed = ContactSchema.parse({ name: 'Ada', phone: null, company: null, tier: null });
+    const phone: string | null = parsed.phone;
+    expect(phone).toBeNull();
+    expect(parsed).toEqual({ name: 'Ada', phone: null, tier: null });
+
+    const missing = ContactSchema.safeParse({ name: 'Ada' });
+    expect(missing.success).toBe(false);
+    if (!missing.success) {
+      expect(missing.issues[0]).toMatchObject({ path: ['phone'], code: 'required' });
+    }
+
+    const nulled = ContactSchema.safeParse({ name: null, phone: null });
+    expect(nulled.success).toBe(false);
+    if (!nulled.success) {
+      expect(nulled.issues[0]).toMatchObject({ path: ['name'], code: 'invalid_type', message: 'Field cannot be null' });
+    }
+  });
+
+  test('exports null in JSON Schema and prompts', () => {
+    const jsonSchema = ContactSchema.toJsonSchema();
+    expect(jsonSchema.properties?.phone?.type).toEqual(['string', 'null']);
+    expect(jsonSchema.properties?.tier?.enum).toEqual(['gold', 'silver', null]);
+
+    expect(ContactSchema.toPrompt()).toContain('"phone": string | null');
+    expect(ContactSchema.toPrompt({ structure: 'json' })).toContain('"phone": "<string>", // nullable');
+  });
+});
+
+describe('container defaults', () => {
+  const SettingsSchema = defineSchema({
+    actionItems: array({
+      default: [],
+      schema: { task: text(), done: boolean({ default: false }) }
+    }),
+    settings: object({
+      default: () => ({ theme: 'dark' }),
+      schema: {
+        theme: text(),
+        notifications: object({ default: {}, schema: { email: boolean({ default: true }) } })
+      }
+    }),
+    createdAt: date({ default: () => new Date('2025-01-01T00:00:00Z') })
+  });
+
+  test('fills array and object defaults, including nested defaults', () => {
+    const parsed = SettingsSchema.parse({});
+    expect(parsed).toEqual({
+      actionItems: [],
+      settings: { theme: 'dark', notifications: { email: true } },
+      createdAt: new Date('2025-01-01T00:00:00Z')
+    });
+
+    const withItems = SettingsSchema.parse({ actionItems: [{ task: 'Ship' }] });
+    expect(withItems.actionItems).toEqual([{ task: 'Ship', done: false }]);
+  });
+
+  test('returns a fresh instance for every parse', () => {
+    const first = SettingsSchema.parse({});
+    const second = SettingsSchema.parse({});
+    expect(first.actionItems).not.toBe(second.actionItems);
+    expect(first.settings).not.toBe(second.settings);
+  });
+});
+
+describe('serialize', () => {
+  const EventSchema = defineSchema({
+    title: text(),
+    day: date({ format: 'date' }),
+    startsAt: date(),
+    createdAt: date({ fromUnix: true }),
+    status: enumType(['draft', 'final'] as const, { default: 'draft' }),
+    notes: text({ nullable: true }),
+    sessions: array({ schema: { at: date({ format: 'date' }), room: text({ default: 'main' }) } })
+  });
+
+  const data = EventSchema.parse({
+    title: 'Launch',
+    day: '2025-03-14',
+    startsAt: '2025-03-14T09:30:00.000Z',
+    createdAt: 1735689600,
+    notes: null,
+    sessions: [{ at: '2025-03-15' }]
+  });
+
+  test('produces plain JSON in the wire format of each field', () => {
+    expect(EventSchema.serialize(data)).toEqual({
+      title: 'Launch',
+      day: '2025-03-14',
+      startsAt: '2025-03-14T09:30:00.000Z',
+      createdAt: 1735689600,
+      status: 'draft',
+      notes: null,
+      sessions: [{ at: '2025-03-15', room: 'main' }]
+    });
+  });
+
+  test('omits defaults on request and round-trips through parse', () => {
+    const serialized = EventSchema.serialize(data, { omitDefaults: true });
+    expect(serialized).not.toHaveProperty('status');
+    expect(serialized.sessions).toEqual([{ at: '2025-03-15' }]);
+
+    expect(EventSchema.parse(JSON.parse(JSON.stringify(serialized)))).toEqual(data);
+    expect(EventSchema.parse(EventSchema.serialize(data))).toEqual(data);
+  });
+
+  test('writes whole Unix seconds for dates with milliseconds', () => {
+    const serialized = EventSchema.serialize({ ...data, createdAt: new Date(1735689600750) });
+    expect(serialized.createdAt).toBe(1735689600);
+  });
+});
+
+describe('unions', () => {
+  const TimelineSchema = defineSchema({
+    reference: union([number(), text()]),
+    events: array({
+      schema: {
+        event: discriminatedUnion('type', {
+          meeting: { title: text(), attendees: number({ min: 1 }) },
+          decision: { summary: md(), owner: entity('person') },
+          deadline: { due: date({ format: 'date' }) }
+        })
+      }
+    })
+  });
+
+  const payload = {
+    reference: 'INC-42',
+    events: [
+      { event: { type: 'meeting', title: 'Kickoff', attendees: 4 } },
+      { event: { type: 'decision', summary: 'Ship **v2**', owner: 'alice' } },
+      { event: { type: 'deadline', due: '2025-06-30' } }
+    ]
+  };
+
+  test('parses union members and discriminated variants', () => {
+    const parsed = TimelineSchema.parse(payload);
+    expect(parsed.reference).toBe('INC-42');
+    expect(parsed.events[2].event).toEqual({ type: 'deadline', due: new Date('2025-06-30') });
+    expect(TimelineSchema.parse({ ...payload, reference: 7 }).reference).toBe(7);
+  });
+
+  test('reports precise issue paths', () => {
+    const result = TimelineSchema.safeParse({
+      reference: true,
+      events: [{ event: { type: 'meeting', title: 'Kickoff', attendees: 0 } }, { event: { type: 'retro' } }]
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map((entry) => [entry.path.join('.'), entry.code])).toEqual([
+        ['reference', 'invalid_union'],
+        ['events.0.event.attendees', 'too_small'],
+        ['events.1.event.type', 'invalid_enum_value']
+      ]);
+    }
+  });
+
+  test('runs member refinements and explains the closest member failure', () => {
+    const ReferenceSchema = defineSchema({
+      reference: union([
+        number({ min: 1 }),
+        text({ refine: (value) => value.startsWith('INC-') || 'Use an INC- reference' })
+      ])
+    });
+
+    expect(ReferenceSchema.parse({ reference: 'INC-7' }).reference).toBe('INC-7');
+
+    const refined = ReferenceSchema.safeParse({ reference: 'ABC' });
+    expect(refined.success).toBe(false);
+    if (!refined.success) {
+      expect(refined.issues.map((entry) => [entry.code, entry.message])).toEqual([
+        ['invalid_union', 'Value does not match any of the allowed types'],
+        ['custom', 'Use an INC- reference']
+      ]);
+    }
+
+    const tooSmall = ReferenceSchema.safeParse({ reference: 0 });
+    expect(tooSmall.success).toBe(false);
+    if (!tooSmall.success) {
+      expect(tooSmall.issues.map((entry) => entry.code)).toEqual(['invalid_union', 'too_small']);
+    }
+  });
+
+  test('exports anyOf/oneOf and renders every variant in prompts', () => {
+    const jsonSchema = TimelineSchema.toJsonSchema();
+    expect(jsonSchema.properties?.reference?.anyOf).toEqual([{ type: 'number' }, { type: 'string' }]);
+    const variants = jsonSchema.properties?.events?.items?.properties?.event?.oneOf;
+    expect(variants).toHaveLength(3);
+    expect(variants?.[0].properties?.type).toEqual({ type: 'string', const: 'meeting' });
+
+    const prompt = TimelineSchema.toPrompt();
+    expect(prompt).toContain('"reference": number | string');
+    expect(prompt).toContain('"type": "meeting"');
+    expect(prompt).toContain('} | {');
+
+    expect(TimelineSchema.toPrompt({ structure: 'json' })).toContain('"reference": 0 | "<string>"');
+  });
+
+  test('diff, merge and entity extraction follow the active variant', () => {
+    const before = TimelineSchema.parse(payload);
+    const after = TimelineSchema.parse({
+      ...payload,
+      events: [{ event: { type: 'meeting', title: 'Kickoff', attendees: 6 } }, ...payload.events.slice(1)]
+    });
+
+    expect(TimelineSchema.diff(before, after).changed).toEqual([
+      { path: 'events.0', before: before.events[0], after: after.events[0] }
+    ]);
+
+    const StatusSchema = defineSchema({
+      status: discriminatedUnion('state', {
+        open: { assignee: entity('person') },
+        closed: { resolution: text() }
+      })
+    });
+    const open = StatusSchema.parse({ status: { state: 'open', assignee: 'alice' } });
+    const reassigned = StatusSchema.parse({ status: { state: 'open', assignee: 'bob' } });
+    const closed = StatusSchema.parse({ status: { state: 'closed', resolution: 'Fixed' } });
+    expect(StatusSchema.diff(open, reassigned).changed).toEqual([
+      { path: 'status.assignee', before: 'alice', after: 'bob' }
+    ]);
+    expect(StatusSchema.diff(open, closed).changed).toEqual([
+      { path: 'status', before: open.status, after: closed.status }
+    ]);
+    expect(StatusSchema.merge(open, { status: { state: 'open', assignee: 'carol' } }).status).toEqual({
+      state: 'open',
+      assignee: 'carol'
+    });
+    expect(TimelineSchema.getEntities(after)).toEqual([{ path: 'events.1.event.owner', type: 'person', value: 'alice' }]);
+    expect(TimelineSchema.getMarkdownFields(after)[0].path).toBe('events.1.event.summary');
+  });
+});
+
+describe('arrays of primitive values', () => {
+  const ArticleSchema = defineSchema({
+    tags: array(text({ minLength: 2 }), { maxItems: 3 }),
+    statuses: array(enumType(['draft', 'review', 'published'] as const), { optional: true }),
+    authors: array(entity('person')),
+    scores: array(number(), { default: () => [] })
+  });
+
+  test('parses item values and reports item paths', () => {
+    const parsed = ArticleSchema.parse({ tags: ['ai', 'llm'], statuses: ['draft'], authors: ['alice', 'bob'] });
+    expect(parsed).toEqual({ tags: ['ai', 'llm'], statuses: ['draft'], authors: ['alice', 'bob'], scores: [] });
+
+    const result = ArticleSchema.safeParse({ tags: ['ai', 'x', 'a', 'b'], statuses: ['archived'], authors: [null] });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map((entry) => [entry.path.join('.'), entry.code])).toEqual([
+        ['tags', 'too_big'],
+        ['tags.1', 'too_small'],
+        ['tags.2', 'too_small'],
+        ['tags.3', 'too_small'],
+        ['statuses.0', 'invalid_enum_value'],
+        ['authors.0', 'invalid_type']
+      ]);
+    }
+  });
+
+  test('exports item schemas and renders compact prompt types', () => {
+    const jsonSchema = ArticleSchema.toJsonSchema();
+    expect(jsonSchema.properties?.tags).toEqual({ type: 'array', items: { type: 'string', minLength: 2 }, maxItems: 3 });
+    expect(jsonSchema.properties?.statuses?.items?.enum).toEqual(['draft', 'review', 'published']);
+
+    const prompt = ArticleSchema.toPrompt();
+    expect(prompt).toContain('"tags": string[]');
+    expect(prompt).toContain('"statuses"?: ("draft" | "review" | "published")[]');
+    expect(ArticleSchema.toPrompt({ structure: 'json' })).toContain('"authors": ["<string>"]');
+  });
+
+  test('search and getEntities visit each item', () => {
+    const data = ArticleSchema.parse({ tags: ['ai', 'llm'], authors: ['alice', 'bob'] });
+    expect(ArticleSchema.getEntities(data)).toEqual([
+      { path: 'authors.0', type: 'person', value: 'alice' },
+      { path: 'authors.1', type: 'person', value: 'bob' }
+    ]);
+    expect(ArticleSchema.search(data, 'llm').map((result) => result.path)).toEqual(['tags.1']);
+  });
+});
+
+describe('record fields', () => {
+  const ReviewSchema = defineSchema({
+    talkTime: record(number({ min: 0 }), { description: 'Minutes spoken per speaker' }),
+    sentiment: record(enumType(['positive', 'neutral', 'negative'] as const), { keys: ['web', 'ios', 'android'] as const }),
+    translations: record(md(), { keyPattern: /^[a-z]{2}(-[A-Z]{2})?$/, optional: true }),
+    owners: record(entity('person'), { optional: true })
+  });
+
+  test('parses dynamic keys and validates keys and values', () => {
+    const parsed = ReviewSchema.parse({
+      talkTime: { alice: 12, bob: 3 },
+      sentiment: { web: 'positive' },
+      translations: { en: 'Hello', 'pt-BR': 'Olá' }
+    });
+    expect(parsed.talkTime.alice).toBe(12);
+    expect(parsed.sentiment.web).toBe('positive');
+
+    const result = ReviewSchema.safeParse({
+      talkTime: { alice: -1 },
+      sentiment: { desktop: 'positive', ios: 'angry' },
+      translations: { English: 'Hello' }
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map((entry) => [entry.path.join('.'), entry.code])).toEqual([
+        ['talkTime.alice', 'too_small'],
+        ['sentiment.desktop', 'invalid_enum_value'],
+        ['sentiment.ios', 'invalid_enum_value'],
+        ['translations.English', 'invalid_format']
+      ]);
+    }
+  });
+
+  test('checks every key against a global or sticky key pattern', () => {
+    const ScoresSchema = defineSchema({
+      global: record(number(), { keyPattern: /^q\d+$/g }),
+      sticky: record(number(), { keyPattern: /q\d+/y })
+    });
+    const scores = { q1: 1, q2: 2, q3: 3, q4: 4 };
+
+    const parsed = ScoresSchema.safeParse({ global: scores, sticky: scores });
+    expect(parsed.success).toBe(true);
+    expect(ScoresSchema.safeParse({ global: scores, sticky: scores }).success).toBe(true);
+  });
+
+  test('exports additionalProperties and patternProperties', () => {
+    const jsonSchema = ReviewSchema.toJsonSchema();
+    expect(jsonSchema.properties?.talkTime).toEqual({
+      type: 'object',
+      additionalProperties: { type: 'number', minimum: 0 },
+      description: 'Minutes spoken per speaker'
+    });
+    expect(Object.keys(jsonSchema.properties?.sentiment?.properties ?? {})).toEqual(['web', 'ios', 'android']);
+    expect(jsonSchema.properties?.translations?.patternProperties).toMatchObject({
+      '^[a-z]{2}(-[A-Z]{2})?$': { type: 'string', format: 'markdown' }
+    });
+
+    const prompt = ReviewSchema.toPrompt();
+    expect(prompt).toContain('"talkTime": Record<string, number>');
+    expect(prompt).toContain('"sentiment": Record<"web" | "ios" | "android", "positive" | "neutral" | "negative">');
+    expect(prompt).toContain('keys match /^[a-z]{2}(-[A-Z]{2})?$/');
+    expect(ReviewSchema.toPrompt({ structure: 'json' })).toContain('"<web | ios | android>": "<positive | neutral | negative>"');
+  });
+
+  test('diff, merge and traversal walk each entry', () => {
+    const before = ReviewSchema.parse({ talkTime: { alice: 12 }, sentiment: {}, owners: { billing: 'alice' } });
+    const after = ReviewSchema.parse({ talkTime: { alice: 14, bob: 2 }, sentiment: {}, owners: { billing: 'alice' } });
+
+    expect(ReviewSchema.diff(before, after)).toEqual({
+      added: [{ path: 'talkTime.bob', after: 2 }],
+      removed: [],
+      changed: [{ path: 'talkTime.alice', before: 12, after: 14 }]
+    });
+    expect(ReviewSchema.merge(before, { talkTime: { bob: 5 } }).talkTime).toEqual({ alice: 12, bob: 5 });
+    expect(ReviewSchema.getEntities(after)).toEqual([{ path: 'owners.billing', type: 'person', value: 'alice' }]);
+  });
+});
+
+describe('literal fields', () => {
+  const NotesSchema = defineSchema({
+    kind: literal('meeting_notes'),
+    version: literal(2, { autoFill: true }),
+    draft: literal(false, { nullable: true }),
+    summary: text()
+  });
+
+  test('accepts only the exact value and auto-fills when configured', () => {
+    const parsed = NotesSchema.parse({ kind: 'meeting_notes', draft: null, summary: 'Done' });
+    expect(parsed).toEqual({ kind: 'meeting_notes', version: 2, draft: null, summary: 'Done' });
+
+    const result = NotesSchema.safeParse({ kind: 'meeting-notes', version: '2', draft: false, summary: 'Done' });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues).toEqual([
+        {
+          path: ['kind'],
+          message: 'Expected literal value "meeting_notes"',
+          code: 'invalid_literal',
+          expected: '"meeting_notes"',
+          received: 'meeting-notes'
+        },
+        {
+          path: ['version'],
+          message: 'Expected literal value 2',
+          code: 'invalid_literal',
+          expected: '2',
+          received: '2'
+        }
+      ]);
+    }
+
+    const coerced = defineSchema({ version: literal(2) }, { coerce: true }).safeParse({ version: '2' });
+    expect(coerced.success && coerced.data.version).toBe(2);
+  });
+
+  test('exports const and renders the fixed value in prompts', () => {
+    const jsonSchema = NotesSchema.toJsonSchema();
+    expect(jsonSchema.properties?.kind).toEqual({ type: 'string', const: 'meeting_notes' });
+    expect(jsonSchema.properties?.draft).toEqual({ anyOf: [{ type: 'boolean', const: false }, { type: 'null' }] });
+    expect(jsonSchema.required).toEqual(['kind', 'draft', 'summary']);
+
+    expect(NotesSchema.toPrompt()).toContain('"kind": "meeting_notes"');
+    expect(NotesSchema.toPrompt({ structure: 'json' })).toContain('"version": 2');
+  });
+});
+
+describe('text formats', () => {
+  const ContactSchema = defineSchema({
+    email: text({ format: 'email' }),
+    website: text({ format: 'url', optional: true }),
+    id: text({ format: 'uuid' }),
+    phone: text({ format: 'phone' }),
+    color: text({ format: 'hex-color' }),
+    handle: text({ format: 'slug' })
+  });
+
+  const valid = {
+    email: 'ada@example.com',
+    website: 'https://example.com/about',
+    id: '3f2b8c1e-9d4a-4e6f-a1b2-c3d4e5f60718',
+    phone: '+1 (415) 555-0123',
+    color: '#1E90FF',
+    handle: 'ada-lovelace'
+  };
+
+  test('validates each preset', () => {
+    expect(ContactSchema.safeParse(valid).success).toBe(true);
+
+    const result = ContactSchema.safeParse({
+      email: 'ada@',
+      website: 'ftp://example.com',
+      id: '1234',
+      phone: '12',
+      color: 'blue',
+      handle: 'Ada Lovelace'
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map((entry) => [entry.path[0], entry.code, entry.expected])).toEqual([
+        ['email', 'invalid_format', 'email'],
+        ['website', 'invalid_format', 'url'],
+        ['id', 'invalid_format', 'uuid'],
+        ['phone', 'invalid_format', 'phone'],
+        ['color', 'invalid_format', 'hex-color'],
+        ['handle', 'invalid_format', 'slug']
+      ]);
+      expect(result.issues[0].message).toBe('Expected a valid email address');
+    }
+  });
+
+  test('exports JSON Schema formats and prompt hints', () => {
+    const properties = ContactSchema.toJsonSchema().properties ?? {};
+    expect(properties.email).toEqual({ type: 'string', format: 'email' });
+    expect(properties.website.format).toBe('uri');
+    expect(properties.id.format).toBe('uuid');
+    expect(properties.handle.pattern).toBe('^[a-z0-9]+(?:-[a-z0-9]+)*$');
+
+    const prompt = ContactSchema.toPrompt();
+    expect(prompt).toContain('"email": string, // email address');
+    expect(prompt).toContain('hex color (#RRGGBB)');
+  });
+});
+
+describe('citation fields', () => {
+  const transcript = 'Alice: We will ship the beta on Friday.\nBob: Pricing stays   the same for now.';
+  const NotesSchema = defineSchema({
+    decisions: array({
+      schema: {
+        summary: text(),
+        evidence: citation()
+      }
+    }),
+    pricing: citation({ requireOffsets: true, optional: true })
+  });
+
+  test('checks quotes against the source and fills in offsets', () => {
+    const parsed = NotesSchema.parse(
+      { decisions: [{ summary: 'Beta ships Friday', evidence: { quote: 'ship the beta on Friday' } }] },
+      { source: transcript }
+    );
+    expect(parsed.decisions[0].evidence).toEqual({ quote: 'ship the beta on Friday', start: 15, end: 38 });
+
+    const whitespace = NotesSchema.safeParse(
+      { decisions: [], pricing: { quote: 'Pricing stays the same', start: 45, end: 69 } },
+      { source: transcript }
+    );
+    expect(whitespace.success).toBe(true);
+  });
+
+  test('reports missing quotes and mismatched offsets', () => {
+    const result = NotesSchema.safeParse(
+      {
+        decisions: [{ summary: 'Price cut', evidence: { quote: 'we will cut prices' } }],
+        pricing: { quote: 'Pricing stays', start: 0, end: 13 }
+      },
+      { source: transcript }
+    );
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map((entry) => [entry.path.join('.'), entry.code, entry.message])).toEqual([
+        ['decisions.0.evidence', 'invalid_citation', 'Quote was not found in the source text'],
+        ['pricing', 'invalid_citation', 'Quote does not match the source text at 0-13']
+      ]);
+    }
+
+    const structural = NotesSchema.safeParse({ decisions: [], pricing: { quote: 'Pricing stays' } });
+    expect(structural.success).toBe(false);
+    if (!structural.success) {
+      expect(structural.issues.map((entry) => entry.path.join('.'))).toEqual(['pricing.start', 'pricing.end']);
+    }
+  });
+
+  test('exports an object schema and prompt instructions', () => {
+    const jsonSchema = NotesSchema.toJsonSchema();
+    expect(jsonSchema.properties?.pricing?.required).toEqual(['quote', 'start', 'end']);
+    expect(jsonSchema.properties?.decisions?.items?.properties?.evidence?.required).toEqual(['quote']);
+
+    const prompt = NotesSchema.toPrompt();
+    expect(prompt).toContain('"evidence": { "quote": string, "start"?: number, "end"?: number }');
+    expect(prompt).toContain('exact quote copied from the source text');
+
+    const jsonPrompt = NotesSchema.toPrompt({ structure: 'json' });
+    expect(jsonPrompt).toContain('"pricing": { "quote": "<exact quote>", "start": 0, "end": 0 }');
+    expect(jsonPrompt).toContain('"evidence": { "quote": "<exact quote>", "start"?: 0, "end"?: 0 }');
+    expect(jsonPrompt).toContain('character offsets optional');
+  });
+});
+
+describe('money and quantity fields', () => {
+  const DealSchema = defineSchema({
+    arr: money({ currencies: ['USD', 'EUR'] as const, min: 0 }),
+    discount: money({ optional: true, locale: 'de-DE' }),
+    seats: quantity({ units: ['seat', 'license'] as const }),
+    storage: quantity({ optional: true })
+  });
+
+  test('parses structured values and validates currency and unit', () => {
+    const parsed = DealSchema.parse({
+      arr: { amount: 12000, currency: 'USD' },
+      discount: { amount: 500, currency: 'GBP' },
+      seats: { value: 40, unit: 'seat' }
+    });
+    expect(parsed.arr).toEqual({ amount: 12000, currency: 'USD' });
+    expect(parsed.seats.unit).toBe('seat');
+
+    const result = DealSchema.safeParse({
+      arr: { amount: -5, currency: 'JPY' },
+      discount: { amount: 10, currency: 'euro' },
+      seats: { value: '40', unit: 'seats' }
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map((entry) => [entry.path.join('.'), entry.code])).toEqual([
+        ['arr.amount', 'too_small'],
+        ['arr.currency', 'invalid_enum_value'],
+        ['discount.currency', 'invalid_format'],
+        ['seats.value', 'invalid_type'],
+        ['seats.unit', 'invalid_enum_value']
+      ]);
+    }
+  });
+
+  test('coerces strings such as "$12k ARR" and "5 TB"', () => {
+    const CoercedSchema = defineSchema(
+      { arr: money({ currencies: ['USD', 'EUR'] as const }), price: money(), storage: quantity() },
+      { coerce: true }
+    );
+    const result = CoercedSchema.safeParse({ arr: '$12k ARR', price: '3.5m eur', storage: '5 TB' });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual({
+        arr: { amount: 12000, currency: 'USD' },
+        price: { amount: 3500000, currency: 'EUR' },
+        storage: { value: 5, unit: 'TB' }
+      });
+      expect(result.coercions?.map((entry) => entry.path.join('.'))).toEqual(['arr', 'price', 'storage']);
+    }
+  });
+
+  test('scales magnitudes without float error and only reads known currency codes', () => {
+    const PriceSchema = defineSchema({ price: money() }, { coerce: true });
+    expect(PriceSchema.parse({ price: '$4.1m' }).price).toEqual({ amount: 4100000, currency: 'USD' });
+    expect(PriceSchema.parse({ price: '1.005k EUR' }).price).toEqual({ amount: 1005, currency: 'EUR' });
+    expect(PriceSchema.parse({ price: '.5k gbp' }).price).toEqual({ amount: 500, currency: 'GBP' });
+    expect(PriceSchema.safeParse({ price: '12 ARR' }).success).toBe(false);
+
+    const CreditSchema = defineSchema({ price: money({ currencies: ['CRD'] as const }) }, { coerce: true });
+    expect(CreditSchema.parse({ price: '12 CRD' }).price).toEqual({ amount: 12, currency: 'CRD' });
+  });
+
+  test('only reads known currency codes before the amount', () => {
+    const PriceSchema = defineSchema({ price: money() }, { coerce: true });
+    expect(PriceSchema.parse({ price: 'eur 5' }).price).toEqual({ amount: 5, currency: 'EUR' });
+    for (const price of ['FOO 5', 'ABC 1,200.50', 'ETA 3']) {
+      expect(PriceSchema.safeParse({ price }).success).toBe(false);
+    }
+
+    const CreditSchema = defineSchema({ price: money({ currencies: ['CRD'] as const }) }, { coerce: true });
+    expect(CreditSchema.parse({ price: 'CRD 12' }).price).toEqual({ amount: 12, currency: 'CRD' });
+  });
+
+  test('exports object schemas and locale-aware prompt hints', () => {
+    const properties = DealSchema.toJsonSchema().properties ?? {};
+    expect(properties.arr).toEqual({
+      type: 'object',
+      properties: { amount: { type: 'number', minimum: 0 }, currency: { type: 'string', enum: ['USD', 'EUR'] } },
+      required: ['amount', 'currency'],
+      additionalProperties: false
+    });
+    expect(properties.storage.required).toEqual(['value', 'unit']);
+
+    const prompt = DealSchema.toPrompt();
+    expect(prompt).toContain('"arr": { "amount": number, "currency": "USD" | "EUR" }');
+    expect(prompt).toContain('amount as a plain number, e.g. $12,000.00 → 12000');
+    expect(prompt).toMatch(/e\.g\. 12\.000,00\s\$ → 12000/);
+    expect(prompt).toContain('"seats": { "value": number, "unit": "seat" | "license" }');
+  });
+});
+
+describe('duration and date range fields', () => {
+  const MeetingSchema = defineSchema({
+    length: duration({ min: 'PT5M', max: 'PT8H' }),
+    period: dateRange(),
+    followUp: duration({ optional: true })
+  });
+
+  test('parses ISO durations and inclusive date ranges', () => {
+    const parsed = MeetingSchema.parse({
+      length: 'PT45M',
+      period: { start: '2025-07-01', end: '2025-09-30' }
+    });
+    expect(parsed.length).toBe('PT45M');
+    expect(parsed.period.start.toISOString()).toBe('2025-07-01T00:00:00.000Z');
+    expect(parsed.period.end.toISOString()).toBe('2025-09-30T00:00:00.000Z');
+  });
+
+  test('reports invalid durations and ranges that end before they start', () => {
+    const result = MeetingSchema.safeParse({
+      length: 'PT2M',
+      period: { start: '2025-09-30', end: '2025-07-01' },
+      followUp: '45 minutes'
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map((entry) => [entry.path.join('.'), entry.code, entry.message])).toEqual([
+        ['length', 'too_small', 'Duration must be at least PT5M'],
+        ['period.end', 'too_small', 'End date must not be before start date'],
+        ['followUp', 'invalid_format', 'Expected an ISO 8601 duration such as PT45M']
+      ]);
+    }
+  });
+
+  test('coerces phrases such as "1h 30m" and "Q3 2025"', () => {
+    expect(MeetingSchema.safeParse({ length: '1h 30m', period: 'Q3 2025' }).success).toBe(false);
+
+    const CoercedSchema = defineSchema(MeetingSchema.getDefinition(), { coerce: true });
+    const coerced = CoercedSchema.parse({ length: '1h 30m', period: 'Q3 2025', followUp: '2 weeks and 3 days' });
+    expect(coerced.length).toBe('PT1H30M');
+    expect(coerced.followUp).toBe('P2W3D');
+    expect(CoercedSchema.serialize(coerced).period).toEqual({ start: '2025-07-01', end: '2025-09-30' });
+
+    const interval = CoercedSchema.parse({ length: 'pt1h', period: '2025-01-01 to 2025-03-31' });
+    expect(interval.length).toBe('PT1H');
+    expect(interval.period.end.toISOString()).toBe('2025-03-31T00:00:00.000Z');
+  });
+
+  test('only coerces intervals whose bounds are ISO dates', () => {
+    const CoercedSchema = defineSchema({ period: dateRange() }, { coerce: true });
+    const exact = CoercedSchema.parse({ period: '2025-01-01T09:00:00Z / 2025-01-02T17:00:00Z' });
+    expect(exact.period.end.toISOString()).toBe('2025-01-02T17:00:00.000Z');
+
+    expect(CoercedSchema.safeParse({ period: 'March 5 to March 9' }).success).toBe(false);
+    expect(CoercedSchema.safeParse({ period: '03/05/2025 - 03/09/2025' }).success).toBe(false);
+    expect(CoercedSchema.safeParse({ period: '2025-02-01 to 2025-02-30' }).success).toBe(false);
+  });
+
+  test('exports JSON Schema and prompt hints', () => {
+    const properties = MeetingSchema.toJsonSchema().properties ?? {};
+    expect(properties.length).toEqual({ type: 'string', format: 'duration' });
+    expect(properties.period).toEqual({
+      type: 'object',
+      properties: {
+        start: { type: 'string', format: 'date' },
+        end: { type: 'string', format: 'date', description: 'Inclusive, not before start' }
+      },
+      required: ['start', 'end'],
+      additionalProperties: false
+    });
+
+    const prompt = MeetingSchema.toPrompt();
+    expect(prompt).toContain('ISO 8601 duration, e.g. PT45M for 45 minutes, min PT5M, max PT8H');
+    expect(prompt).toContain('"period": { "start": string, "end": string }, // start and end inclusive, start <= end');
+  });
+});
+
+describe('lazy fields', () => {
+  interface Section {
+    title: string;
+    body?: string;
+    children?: Section[];
+  }
+
+  const section = lazy<Section>(
+    (): SchemaDefinition => ({
+      title: text(),
+      body: md({ optional: true }),
+      children: array(section, { optional: true })
+    }),
+    { name: 'Section' }
+  );
+
+  const OutlineSchema = defineSchema({
+    title: text(),
+    sections: array(section),
+    pinned: lazy<Section>(() => section, { nullable: true, optional: true })
+  });
+
+  const outline = {
+    title: 'Handbook',
+    sections: [
+      {
+        title: 'Intro',
+        children: [{ title: 'Scope', children: [{ title: 'Out of scope', body: 'Billing **and** invoicing' }] }]
+      }
+    ]
+  };
+
+  test('parses recursive data and reports issues at nested paths', () => {
+    const parsed: InferSchema<typeof OutlineSchema> = OutlineSchema.parse(outline);
+    const cleared: InferSchema<typeof OutlineSchema> = { ...parsed, pinned: null };
+    expect(OutlineSchema.parse(cleared).pinned).toBeNull();
+    expect(parsed.sections[0].children?.[0].children?.[0].title).toBe('Out of scope');
+
+    const result = OutlineSchema.safeParse({
+      title: 'Handbook',
+      sections: [{ title: 'Intro', children: [{ title: 'Scope', children: [{ body: 'No title' }] }] }]
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map((entry) => entry.path.join('.'))).toEqual(['sections.0.children.0.children.0.title']);
+    }
+  });
+
+  test('exports recursive definitions once under $defs', () => {
+    const jsonSchema = OutlineSchema.toJsonSchema();
+    expect(jsonSchema.properties?.sections.items).toEqual({ $ref: '#/$defs/Section' });
+    expect(jsonSchema.properties?.pinned).toEqual({ anyOf: [{ $ref: '#/$defs/Node' }, { type: 'null' }] });
+    expect(Object.keys(jsonSchema.$defs ?? {})).toEqual(['Section', 'Node']);
+    expect(jsonSchema.$defs?.Section.properties?.children.items).toEqual({ $ref: '#/$defs/Section' });
+    expect(jsonSchema.$defs?.Node).toEqual({ $ref: '#/$defs/Section' });
+    expect(defineSchema({ title: text() }).toJsonSchema().$defs).toBeUndefined();
+  });
+
+  test('caps prompt expansion at maxDepth', () => {
+    const prompt = defineSchema({ sections: array(section) }).toPrompt();
+    expect(prompt.match(/"title": string/g)).toHaveLength(2);
+    expect(prompt).toContain('"children"?: { /* same shape as above */ }[]');
+
+    const Shallow = defineSchema({ root: lazy<Section>(() => section, { maxDepth: 0 }) });
+    expect(Shallow.toPrompt()).toContain('"root": { /* same shape as above */ }');
+  });
+
+  test('walks recursive data in transforms', () => {
+    const parsed = OutlineSchema.parse(outline);
+    const updated = OutlineSchema.parse({
+      ...outline,
+      sections: [{ title: 'Intro', children: [{ title: 'Scope', children: [{ title: 'Not covered' }] }] }]
+    });
+
+    expect(OutlineSchema.search(parsed, 'invoicing').map((entry) => entry.path)).toEqual([
+      'sections.0.children.0.children.0.body'
+    ]);
+    expect(OutlineSchema.getMarkdownFields(parsed).map((entry) => entry.path)).toEqual([
+      'sections.0.children.0.children.0.body'
+    ]);
+    expect(OutlineSchema.diff(parsed, updated).changed.map((entry) => entry.path)).toEqual(['sections.0']);
+    expect(OutlineSchema.serialize(parsed)).toEqual(outline);
+
+    const partial = OutlineSchema.parsePartial('{"title": "Handbook", "sections": [{"title": "Intro", "children": [{"title": "Sc');
+    expect(partial.data.sections?.[0]?.children?.[0]?.title).toBe('Sc');
+  });
+});
+
+describe('named definitions', () => {
+  const person = named('Person', { name: text(), email: text({ optional: true, format: 'email' }) });
+  const MeetingSchema = defineSchema({
+    owner: object({ schema: person, description: 'Meeting owner' }),
+    attendees: array({ schema: person }),
+    backup: object({ schema: person, nullable: true, optional: true })
+  });
+
+  test('exports a named definition once under $defs', () => {
+    const jsonSchema = MeetingSchema.toJsonSchema();
+    expect(jsonSchema.properties).toEqual({
+      owner: { $ref: '#/$defs/Person', description: 'Meeting owner' },
+      attendees: { type: 'array', items: { $ref: '#/$defs/Person' } },
+      backup: { anyOf: [{ $ref: '#/$defs/Person' }, { type: 'null' }] }
+    });
+    expect(jsonSchema.$defs).toEqual({
+      Person: {
+        type: 'object',
+        properties: { name: { type: 'string' }, email: { type: 'string', format: 'email' } },
+        required: ['name'],
+        additionalProperties: false
+      }
+    });
+    expect(MeetingSchema.toOpenAITool().function.parameters.$defs).toHaveProperty('Person');
+  });
+
+  test('declares a named type once in TypeScript prompts', () => {
+    const prompt = MeetingSchema.toPrompt();
+    expect(prompt).toContain('type Person = {\n  "name": string,\n  "email"?: string // email address\n};');
+    expect(prompt).toContain('"owner": Person, // Meeting owner');
+    expect(prompt).toContain('"attendees": Person[],');
+    expect(prompt).toContain('"backup"?: Person | null');
+    expect(prompt.match(/"name": string/g)).toHaveLength(1);
+
+    expect(MeetingSchema.toPrompt({ structure: 'json' })).not.toContain('Person');
+  });
+
+  test('names recursive lazy definitions in both exports', () => {
+    interface Section {
+      title: string;
+      children?: Section[];
+    }
+    const section = lazy<Section>(
+      (): SchemaDefinition => named('Section', { title: text(), children: array(section, { optional: true }) })
+    );
+    const OutlineSchema = defineSchema({ sections: array(section) });
+
+    const jsonSchema = OutlineSchema.toJsonSchema();
+    expect(Object.keys(jsonSchema.$defs ?? {})).toEqual(['Section']);
+    expect(jsonSchema.$defs?.Section.properties?.children.items).toEqual({ $ref: '#/$defs/Section' });
+    expect(OutlineSchema.toPrompt()).toContain('type Section = {\n  "title": string,\n  "children"?: Section[]\n};');
+  });
+
+  test('keeps distinct definitions with the same name apart', () => {
+    const first = named('Contact', { email: text() });
+    const second = named('Contact', { phone: text() });
+    const jsonSchema = defineSchema({
+      a: object({ schema: first }),
+      b: object({ schema: second })
+    }).toJsonSchema();
+    expect(jsonSchema.properties?.b).toEqual({ $ref: '#/$defs/Contact2' });
+    expect(() => named('not a name', {})).toThrow('Invalid schema name: not a name');
+  });
+});
+
+describe('confidence fields', () => {
+  const TaskSchema = defineSchema({
+    task: text(),
+    owner: withConfidence(entity('person')),
+    deadline: withConfidence(date({ format: 'date', optional: true })),
+    steps: array({ schema: { label: text(), status: withConfidence(enumType(['todo', 'done'] as const)) } })
+  });
+
+  test('unwraps values and reports confidences on the side', () => {
+    const result = TaskSchema.safeParse({
+      task: 'Ship release',
+      owner: { value: 'ada', confidence: 0.9 },
+      deadline: { value: '2025-07-01', confidence: 0.35 },
+      steps: [{ label: 'Notes', status: { value: 'done', confidence: 1 } }]
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const owner: string = result.data.owner;
+      expect(owner).toBe('ada');
+      expect(result.data.deadline).toEqual(new Date('2025-07-01'));
+      expect(result.data.steps[0].status).toBe('done');
+      expect(result.confidences).toEqual([
+        { path: ['owner'], confidence: 0.9 },
+        { path: ['deadline'], confidence: 0.35 },
+        { path: ['steps', '0', 'status'], confidence: 1 }
+      ]);
+      expect(TaskSchema.safeParse(result.data).success).toBe(true);
+    }
+  });
+
+  test('reports issues inside the envelope', () => {
+    const result = TaskSchema.safeParse({
+      task: 'Ship release',
+      owner: { value: 42, confidence: 1.4 },
+      steps: [{ label: 'Notes', status: { value: 'done' } }]
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map((entry) => [entry.path.join('.'), entry.code])).toEqual([
+        ['owner.value', 'invalid_type'],
+        ['owner.confidence', 'too_big'],
+        ['steps.0.status.confidence', 'required']
+      ]);
+    }
+
+    const coerced = defineSchema(TaskSchema.getDefinition(), { coerce: true }).safeParse({
+      task: 'Ship release',
+      owner: { value: 'ada', confidence: '80%' },
+      steps: []
+    });
+    expect(coerced.success && coerced.confidences).toEqual([{ path: ['owner'], confidence: 0.8 }]);
+  });
+
+  test('asks for a value and a confidence in exports', () => {
+    const properties = TaskSchema.toJsonSchema().properties ?? {};
+    expect(properties.owner).toMatchObject({
+      type: 'object',
+      properties: {
+        value: { type: 'string', description: 'Entity reference (person)' },
+        confidence: { type: 'number', minimum: 0, maximum: 1 }
+      },
+      required: ['value', 'confidence'],
+      additionalProperties: false
+    });
+    expect(TaskSchema.toJsonSchema().required).toEqual(['task', 'owner', 'steps']);
+
+    const prompt = TaskSchema.toPrompt();
+    expect(prompt).toContain('"owner": { "value": string, "confidence": number }, // confidence from 0 (guess)');
+    expect(prompt).toContain('"deadline"?: { "value": string, "confidence": number }');
+    expect(TaskSchema.toPrompt({ structure: 'json' })).toContain('"status": { "value": "<todo | done>", "confidence": 0.8 }');
+  });
+
+  test('indents multi-line values inside the envelope', () => {
+    const ReviewSchema = defineSchema({ scope: withConfidence(object({ schema: { team: text() } })) });
+    expect(ReviewSchema.toPrompt()).toContain(
+      [
+        '  "scope": { // confidence from 0 (guess) to 1 (stated explicitly)',
+        '    "value": {',
+        '      "team": string',
+        '    },',
+        '    "confidence": number',
+        '  }'
+      ].join('\n')
+    );
+    expect(ReviewSchema.toPrompt({ structure: 'json' })).toContain(
+      ['  "scope": {', '    "value": {', '      "team": "<string>"', '    },', '    "confidence": 0.8', '  } //'].join('\n')
+    );
+  });
+
+  test('keeps objects with their own value key intact', () => {
+    const ReadingSchema = defineSchema({
+      reading: withConfidence(object({ schema: { value: number(), note: text({ optional: true }) } }))
+    });
+
+    const bare = ReadingSchema.safeParse({ reading: { value: 4 } });
+    expect(bare.success && bare.data.reading).toEqual({ value: 4 });
+    expect(bare.success && bare.confidences).toBeUndefined();
+
+    const wrapped = ReadingSchema.safeParse({ reading: { value: { value: 4 }, confidence: 0.6 } });
+    expect(wrapped.success && wrapped.data.reading).toEqual({ value: 4 });
+    expect(wrapped.success && wrapped.confidences).toEqual([{ path: ['reading'], confidence: 0.6 }]);
+  });
+});
+
+describe('markdown rules', () => {
+  const NoteSchema = defineSchema({
+    body: md({ allowHtml: false, allowedMarkdown: { images: false, headers: false, links: false } }),
+    summary: md({ optional: true, stripDisallowed: true, allowHtml: false, allowedMarkdown: { images: false, lists: false } })
+  });
+
+  test('reports disallowed syntax with its position', () => {
+    const result = NoteSchema.safeParse({
+      body: 'Intro with **bold** text.\n\n![chart](chart.png)\n\n## Details\nSee <b>this</b> and [docs](https://example.com).'
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map((entry) => [entry.code, entry.message, entry.received])).toEqual([
+        ['invalid_markdown', 'Images are not allowed (line 3, column 1)', '![chart](chart.png)'],
+        ['invalid_markdown', 'Headings are not allowed (line 5, column 1)', '## Details'],
+        ['invalid_markdown', 'HTML is not allowed (line 6, column 5)', '<b>'],
+        ['invalid_markdown', 'HTML is not allowed (line 6, column 12)', '</b>'],
+        ['invalid_markdown', 'Links are not allowed (line 6, column 21)', '[docs](https://example.com)']
+      ]);
+    }
+
+    const ignored = NoteSchema.safeParse({ body: '`![not an image](x.png)`\n\n```\n<div>code</div>\n```' });
+    expect(ignored.success).toBe(true);
+  });
+
+  test('strips disallowed syntax when asked to', () => {
+    const result = NoteSchema.safeParse({
+      body: 'Plain',
+      summary: 'Shipped **v2** ![logo](logo.png)\n\n- first <em>item</em>\n- second\n  continued'
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.summary).toBe('Shipped **v2** \n\nfirst item\nsecond\ncontinued');
+      expect(result.coercions).toEqual([
+        { path: ['summary'], from: 'Shipped **v2** ![logo](logo.png)\n\n- first <em>item</em>\n- second\n  continued', to: result.data.summary }
+      ]);
+    }
+  });
+
+  test('treats bare URLs and reference links as links', () => {
+    const body = 'See https://example.com/docs. Or (www.example.com), and [the guide][guide].\n\n[Guide]: https://example.com/guide "Guide"';
+    const result = NoteSchema.safeParse({ body });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map((entry) => [entry.message, entry.received])).toEqual([
+        ['Links are not allowed (line 1, column 5)', 'https://example.com/docs'],
+        ['Links are not allowed (line 1, column 35)', 'www.example.com'],
+        ['Links are not allowed (line 1, column 57)', '[the guide][guide]'],
+        ['Links are not allowed (line 3, column 1)', '[Guide]: https://example.com/guide "Guide"']
+      ]);
+    }
+
+    const unlinked = NoteSchema.safeParse({ body: 'Press [Enter] to go on; see `https://example.com` or http:/nowhere.' });
+    expect(unlinked.success).toBe(true);
+
+    const StrippedSchema = defineSchema({ body: md({ stripDisallowed: true, allowedMarkdown: { links: false } }) });
+    const stripped = StrippedSchema.safeParse({ body: 'Read [the guide][guide].\nMirror: <https://example.org> https://example.com\n\n[guide]: /guide' });
+    expect(stripped.success && stripped.data.body).toBe('Read the guide.\nMirror:  \n\n');
+  });
+
+  test('only lets bullets and lists starting at 1 interrupt a paragraph', () => {
+    const ProseSchema = defineSchema({ text: md({ allowedMarkdown: { lists: false } }) });
+    expect(ProseSchema.safeParse({ text: 'text\n2019. great year' }).success).toBe(true);
+    expect(ProseSchema.safeParse({ text: 'text\n1.\nmore' }).success).toBe(true);
+
+    const result = ProseSchema.safeParse({ text: 'text\n1. first\n2. second' });
+    expect(!result.success && result.issues.map((entry) => entry.message)).toEqual([
+      'Lists are not allowed (line 2, column 1)'
+    ]);
+  });
+
+  test('lists the rules in prompts', () => {
+    const prompt = NoteSchema.toPrompt();
+    expect(prompt).toContain('"body": string, // no headings, links, images or HTML');
+    expect(prompt).toContain('"summary"?: string // no lists, images or HTML');
+    expect(NoteSchema.getDefinition().body.toPrompt('body')).toBe('"body": markdown (required) (no headings, links, images or HTML)');
+  });
+});
+
+describe('markdown structure', () => {
+  const SummarySchema = defineSchema({
+    summary: md({
+      requiredHeadings: ['## Decisions', 'Risks'],
+      minHeadingDepth: 2,
+      maxHeadingDepth: 3,
+      maxListItems: 3,
+      minParagraphs: 1
+    })
+  });
+
+  test('accepts summaries that follow the outline', () => {
+    const summary = 'We met.\n\n## Decisions\n- Ship on Friday\n- Freeze scope\n\n### Risks\n- QA capacity';
+    expect(SummarySchema.parse({ summary }).summary).toBe(summary);
+  });
+
+  test('reports missing headings, heading depth and budgets', () => {
+    const result = SummarySchema.safeParse({
+      summary: '# Weekly sync\n\n## decisions\n- one\n- two\n  - nested\n- three'
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map((entry) => [entry.code, entry.message])).toEqual([
+        ['invalid_markdown', 'Heading "Weekly sync" must be h2-h3 (line 1, column 1)'],
+        ['invalid_markdown', 'Missing required heading "Risks"'],
+        ['too_big', 'Expected at most 3 list items'],
+        ['too_small', 'Expected at least 1 paragraph']
+      ]);
+    }
+  });
+
+  test('renders the outline into prompts', () => {
+    expect(SummarySchema.toPrompt()).toContain(
+      '"summary": string // must include headings "## Decisions" and "Risks", headings h2-h3 only, at most 3 list items, at least 1 paragraph'
+    );
+  });
+});
+
+describe('entity registry', () => {
+  const people = [
+    { id: 'u_bob', type: 'person', name: 'Robert Smith', aliases: ['Bob', 'bob smith'], email: 'bob@example.com' },
+    { id: 'u_ada', type: 'person', name: 'Ada Lovelace' }
+  ];
+  const TaskSchema = defineSchema(
+    {
+      owner: entity('person'),
+      reviewers: array(entity('person'), { optional: true }),
+      project: entity('project', { optional: true })
+    },
+    { entities: { entities: people } }
+  );
+
+  test('normalizes names and aliases to canonical IDs', () => {
+    const result = TaskSchema.safeParse({ owner: 'Bob', reviewers: ['robert  smith', 'u_ada'], project: 'apollo' });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual({ owner: 'u_bob', reviewers: ['u_bob', 'u_ada'], project: 'apollo' });
+      expect(result.coercions).toEqual([
+        { path: ['owner'], from: 'Bob', to: 'u_bob' },
+        { path: ['reviewers', '0'], from: 'robert  smith', to: 'u_bob' }
+      ]);
+      expect(TaskSchema.getEntities(result.data, 'person')).toEqual([
+        { path: 'owner', type: 'person', value: 'u_bob', entity: people[0] },
+        { path: 'reviewers.0', type: 'person', value: 'u_bob', entity: people[0] },
+        { path: 'reviewers.1', type: 'person', value: 'u_ada', entity: people[1] }
+      ]);
+    }
+  });
+
+  test('reports entities that cannot be resolved', () => {
+    const result = TaskSchema.safeParse({ owner: 'Charlie' });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues).toEqual([
+        { path: ['owner'], message: 'Unknown person "Charlie"', code: 'unresolved_entity', expected: 'person', received: 'Charlie' }
+      ]);
+    }
+  });
+
+  test('uses resolvers passed at parse time', async () => {
+    const projects = { entities: [], resolvers: { project: (value: string) => (value === 'Apollo' ? 'p_apollo' : null) } };
+    const parsed = TaskSchema.parse({ owner: 'u_ada', project: 'Apollo' }, { entities: projects });
+    expect(parsed.project).toBe('p_apollo');
+    expect(TaskSchema.getEntities(parsed, 'project', projects)).toEqual([
+      { path: 'project', type: 'project', value: 'p_apollo', entity: { id: 'p_apollo', type: 'project' } }
+    ]);
+    expect(TaskSchema.safeParse({ owner: 'u_ada', project: 'Gemini' }, { entities: projects }).success).toBe(false);
+
+    const lookups: string[] = [];
+    const directory = {
+      resolvers: {
+        project: async (value: string) => {
+          lookups.push(value);
+          return value.startsWith('p_') ? { id: value, type: 'project', name: 'Remote' } : null;
+        }
+      }
+    };
+    const result = await TaskSchema.safeParseAsync({ owner: 'Bob', project: 'p_remote' }, { entities: directory });
+    expect(result.success && result.data).toEqual({ owner: 'u_bob', project: 'p_remote' });
+    expect(lookups).toEqual(['p_remote']);
+
+    const failed = await TaskSchema.safeParseAsync({ owner: 'Bob', project: 'unknown' }, { entities: directory });
+    expect(!failed.success && failed.issues.map((entry) => entry.code)).toEqual(['unresolved_entity']);
+    expect(TaskSchema.safeParse({ owner: 'Bob', project: 'p_remote' }, { entities: directory }).success).toBe(true);
+    const unresolved = TaskSchema.safeParse({ owner: 'Bob', project: 'p_other' }, { entities: directory });
+    expect(!unresolved.success && unresolved.issues).toEqual([
+      {
+        path: ['project'],
+        message: 'Async entity resolver for project cannot run during synchronous parsing; use parseAsync() or safeParseAsync()',
+        code: 'unresolved_entity',
+        expected: 'project',
+        received: 'p_other'
+      }
+    ]);
+  });
+
+  test('runs refinements once after async lookups', async () => {
+    const checked: unknown[] = [];
+    const ReviewSchema = defineSchema(
+      {
+        project: entity('project', { refine: (value) => checked.push(value) > 0 }),
+        title: text({ refine: async (value) => checked.push(value) > 0 })
+      },
+      { rules: [(data) => checked.push(data) > 0] }
+    );
+    const directory = { resolvers: { project: async (value: string) => (value === 'Apollo' ? 'p_apollo' : null) } };
+
+    const result = await ReviewSchema.safeParseAsync({ project: 'Apollo', title: 'Launch' }, { entities: directory });
+    expect(result.success && result.data).toEqual({ project: 'p_apollo', title: 'Launch' });
+    expect(checked).toEqual(['p_apollo', 'Launch', { project: 'p_apollo', title: 'Launch' }]);
+  });
+
+  test('reports resolvers that fail as issues', async () => {
+    const directory = {
+      resolvers: {
+        project: async (value: string) => {
+          throw new Error(`lookup of ${value} timed out`);
+        }
+      }
+    };
+    const result = await TaskSchema.safeParseAsync({ owner: 'Bob', project: 'Apollo' }, { entities: directory });
+    expect(!result.success && result.issues).toEqual([
+      {
+        path: ['project'],
+        message: 'Could not resolve project "Apollo": lookup of Apollo timed out',
+        code: 'unresolved_entity',
+        expected: 'project',
+        received: 'Apollo'
+      }
+    ]);
+
+    const broken = {
+      resolvers: {
+        project: () => {
+          throw new Error('directory offline');
+        }
+      }
+    };
+    const failed = TaskSchema.safeParse({ owner: 'Bob', project: 'Apollo' }, { entities: broken });
+    expect(!failed.success && failed.issues.map((entry) => entry.message)).toEqual([
+      'Could not resolve project "Apollo": directory offline'
+    ]);
+  });
+});
+
+describe('markdown mentions', () => {
+  const registry = {
+    entities: [
+      { id: 'u_ada', type: 'person', name: 'Ada Lovelace', aliases: ['ada'] },
+      { id: 'p_apollo', type: 'project', name: 'Apollo' }
+    ]
+  };
+  const NotesSchema = defineSchema(
+    {
+      owner: entity('person'),
+      notes: md({ mentions: ['person', 'project'], allowedMarkdown: { links: false } })
+    },
+    { entities: registry }
+  );
+
+  test('returns mentions with their path and offsets', () => {
+    const notes = 'Synced with @[Ada](person:ada) about @[Apollo](project:p_apollo).\n\n`@[code](person:x)` is ignored.';
+    const result = NotesSchema.safeParse({ owner: 'u_ada', notes });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.notes).toBe(
+        'Synced with @[Ada](person:u_ada) about @[Apollo](project:p_apollo).\n\n`@[code](person:x)` is ignored.'
+      );
+      expect(result.coercions).toEqual([{ path: ['notes'], from: notes, to: result.data.notes }]);
+      expect(NotesSchema.getEntities(result.data)).toEqual([
+        { path: 'owner', type: 'person', value: 'u_ada', entity: registry.entities[0] },
+        {
+          path: 'notes',
+          type: 'person',
+          value: 'u_ada',
+          entity: registry.entities[0],
+          mention: { text: 'Ada', start: 12, end: 32 }
+        },
+        {
+          path: 'notes',
+          type: 'project',
+          value: 'p_apollo',
+          entity: registry.entities[1],
+          mention: { text: 'Apollo', start: 39, end: 66 }
+        }
+      ]);
+      expect(NotesSchema.getEntities(result.data, 'project').map((record) => record.path)).toEqual(['notes']);
+    }
+  });
+
+  test('reports unknown entities and types that are not allowed', () => {
+    const result = NotesSchema.safeParse({
+      owner: 'u_ada',
+      notes: 'Ask @[Grace](person:grace) and @[Ops](team:ops).'
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map((entry) => [entry.code, entry.message])).toEqual([
+        ['unresolved_entity', 'Unknown person "grace" (line 1, column 5)'],
+        ['invalid_markdown', 'Mentions of team are not allowed (line 1, column 32)']
+      ]);
+    }
+  });
+
+  test('explains the mention syntax in prompts', () => {
+    expect(NotesSchema.toPrompt()).toContain(
+      '"notes": string // no links, mention entities as @[Name](type:id) where type is person or project'
+    );
+  });
+});
+
+describe('enum labels', () => {
+  const TicketSchema = defineSchema({
+    priority: enumType(['p0', 'p1', 'p2'] as const, {
+      description: 'Ticket priority',
+      labels: { p0: 'Critical outage', p1: 'Degraded service' }
+    }),
+    tags: array(enumType(['bug', 'feature'] as const, { labels: { bug: 'Something is broken' } })),
+    status: enumType(['open', 'closed'] as const, { nullable: true, labels: { open: 'Awaiting work' } })
+  });
+
+  test('adds labels to prompt comments', () => {
+    const prompt = TicketSchema.toPrompt();
+    expect(prompt).toContain(
+      '"priority": "p0" | "p1" | "p2", // Ticket priority, p0 = Critical outage; p1 = Degraded service'
+    );
+    expect(prompt).toContain('"tags": ("bug" | "feature")[], // bug = Something is broken');
+    expect(TicketSchema.toPrompt({ structure: 'json' })).toContain('"priority": "<p0 | p1 | p2>", // Ticket priority, p0 = Critical outage');
+    expect(TicketSchema.getDefinition().priority.toPrompt('priority')).toBe(
+      `"priority": 'p0' | 'p1' | 'p2' (required) (p0 = Critical outage; p1 = Degraded service) - Ticket priority`
+    );
+  });
+
+  test('exports labelled values as oneOf with const and description', () => {
+    const properties = TicketSchema.toJsonSchema().properties ?? {};
+    expect(properties.priority).toEqual({
+      description: 'Ticket priority',
+      oneOf: [
+        { const: 'p0', description: 'Critical outage' },
+        { const: 'p1', description: 'Degraded service' },
+        { const: 'p2' }
+      ]
+    });
+    expect(properties.status).toEqual({
+      oneOf: [{ const: 'open', description: 'Awaiting work' }, { const: 'closed' }, { type: 'null' }]
+    });
+    expect(TicketSchema.safeParse({ priority: 'p2', tags: ['bug'], status: null }).success).toBe(true);
+  });
+});
+
+describe('fromJsonSchema', () => {
+  test('round-trips exported definitions', () => {
+    const Person = named('Person', {
+      name: text({ description: 'Full name', maxLength: 80 }),
+      email: text({ format: 'email', optional: true }),
+      phone: text({ format: 'phone', optional: true })
+    });
+    const definition = {
+      title: text({ minLength: 3, pattern: /^[A-Z]/ }),
+      summary: md({ maxLength: 2000, optional: true }),
+      score: number({ min: 0, max: 10, nullable: true }),
+      done: boolean(),
+      due: date({ format: 'date' }),
+      updatedAt: date(),
+      estimate: duration({ optional: true }),
+      period: dateRange(),
+      status: enumType(['open', 'closed'] as const),
+      priority: enumType(['p0', 'p1'] as const, { labels: { p0: 'Critical outage' } }),
+      owner: entity('person'),
+      kind: literal('ticket'),
+      source: citation({ requireOffsets: true }),
+      budget: money({ currencies: ['USD', 'EUR'] }),
+      weight: quantity({ min: 0 }),
+      tags: array(text(), { maxItems: 5 }),
+      people: array({ schema: Person }),
+      lead: object({ schema: Person, optional: true }),
+      scores: record(number(), { keyPattern: /^q\d+$/ }),
+      notes: record(text()),
+      answer: union([text(), number()]),
+      event: discriminatedUnion('type', {
+        call: { minutes: number() },
+        email: { subject: text() }
+      }),
+      verdict: withConfidence(enumType(['yes', 'no'] as const))
+    };
+
+    const exported = defineSchema(definition, { description: 'Ticket' }).toJsonSchema();
+    const imported = fromJsonSchema(exported);
+
+    expect(imported.issues).toEqual([]);
+    expect(imported.description).toBe('Ticket');
+    expect(defineSchema(imported.definition, { description: 'Ticket' }).toJsonSchema()).toEqual(exported);
+    expect(imported.definition.summary.kind).toBe('markdown');
+    expect(imported.definition.updatedAt.kind).toBe('date');
+    expect(imported.definition.lead.optional).toBe(true);
+  });
+
+  test('maps recursive references to lazy fields', () => {
+    const imported = fromJsonSchema({
+      type: 'object',
+      properties: { root: { $ref: '#/$defs/Category' } },
+      required: ['root'],
+      $defs: {
+        Category: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            children: { type: 'array', items: { $ref: '#/$defs/Category' } }
+          },
+          required: ['name', 'children']
+        }
+      }
+    });
+
+    expect(imported.issues).toEqual([]);
+    const Tree = defineSchema(imported.definition);
+    expect(Tree.safeParse({ root: { name: 'a', children: [{ name: 'b', children: [] }] } }).success).toBe(true);
+    expect(Tree.safeParse({ root: { name: 'a', children: [{ name: 2, children: [] }] } }).success).toBe(false);
+    expect(Tree.toJsonSchema().$defs?.Category).toBeDefined();
+  });
+
+  test('reports references that only point at each other', () => {
+    const { definition, issues } = fromJsonSchema({
+      type: 'object',
+      properties: {
+        self: { $ref: '#/$defs/A' },
+        chain: { $ref: '#/$defs/B' },
+        name: { $ref: '#/$defs/Name' }
+      },
+      $defs: {
+        A: { $ref: '#/$defs/A' },
+        B: { $ref: '#/$defs/C' },
+        C: { $ref: '#/$defs/B' },
+        Name: { $ref: '#/$defs/Text' },
+        Text: { type: 'string' }
+      }
+    });
+
+    expect(Object.keys(definition)).toEqual(['name']);
+    expect(issues).toEqual([
+      { schemaPath: '#/properties/self', keyword: '$ref', message: 'Cannot resolve reference "#/$defs/A"' },
+      { schemaPath: '#/properties/chain', keyword: '$ref', message: 'Cannot resolve reference "#/$defs/B"' }
+    ]);
+    expect(defineSchema(definition).safeParse({ name: 'Ada' }).success).toBe(true);
+  });
+
+  test('reports unions and enums with nothing besides null', () => {
+    const { definition, issues } = fromJsonSchema({
+      type: 'object',
+      properties: {
+        onlyNull: { anyOf: [{ type: 'null' }] },
+        noMembers: { oneOf: [] },
+        noValues: { type: 'string', enum: [] },
+        nullValue: { enum: [null] },
+        kept: { type: 'string' }
+      }
+    });
+
+    expect(Object.keys(definition)).toEqual(['kept']);
+    expect(issues).toEqual([
+      { schemaPath: '#/properties/onlyNull', keyword: 'anyOf', message: '"anyOf" has no members besides null' },
+      { schemaPath: '#/properties/noMembers', keyword: 'oneOf', message: '"oneOf" has no members besides null' },
+      { schemaPath: '#/properties/noValues', keyword: 'enum', message: '"enum" has no values besides null' },
+      { schemaPath: '#/properties/nullValue', keyword: 'enum', message: '"enum" has no values besides null' }
+    ]);
+  });
+
+  test('reports union and enum keywords that are not arrays', () => {
+    const { definition, issues } = fromJsonSchema({
+      type: 'object',
+      properties: {
+        either: { anyOf: { type: 'string' } },
+        one: { oneOf: 'string' },
+        level: { type: 'string', enum: 'low' },
+        kept: { type: 'string' }
+      }
+    });
+
+    expect(Object.keys(definition)).toEqual(['kept']);
+    expect(issues).toEqual([
+      { schemaPath: '#/properties/either', keyword: 'anyOf', message: '"anyOf" must be an array' },
+      { schemaPath: '#/properties/one', keyword: 'oneOf', message: '"oneOf" must be an array' },
+      { schemaPath: '#/properties/level', keyword: 'enum', message: '"enum" must be an array' }
+    ]);
+  });
+
+  test('reads common JSON Schema idioms', () => {
+    const { definition, issues } = fromJsonSchema({
+      type: 'object',
+      properties: {
+        body: { type: 'string', format: 'markdown' },
+        createdAt: { type: ['string', 'null'], format: 'date-time' },
+        count: { type: 'integer', minimum: 1, default: 1 },
+        level: { enum: ['low', 'high', null] },
+        size: { enum: [1, 2, 3] },
+        site: { type: 'string', format: 'uri', title: 'Homepage' }
+      },
+      required: ['body', 'createdAt', 'level', 'size', 'site']
+    });
+
+    expect(issues).toEqual([]);
+    expect(definition.body.kind).toBe('markdown');
+    expect(definition.createdAt).toMatchObject({ kind: 'date', nullable: true });
+    expect(definition.count).toMatchObject({ kind: 'number', optional: true, options: { precision: 0, min: 1 } });
+    expect(definition.level).toMatchObject({ kind: 'enum', nullable: true, values: ['low', 'high'] });
+    expect(definition.size.kind).toBe('union');
+    expect(definition.site).toMatchObject({ kind: 'text', description: 'Homepage', options: { format: 'url' } });
+
+    const parsed = defineSchema(definition).parse({
+      body: '**hi**',
+      createdAt: null,
+      level: null,
+      size: 2,
+      site: 'https://example.com'
+    });
+    expect(parsed.count).toBe(1);
+  });
+
+  test('reports what it cannot map', () => {
+    const { definition, issues } = fromJsonSchema({
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, examples: ['Ada'] },
+        ip: { type: 'string', format: 'ipv4' },
+        score: { type: ['string', 'number'] },
+        extra: { allOf: [{ type: 'string' }] },
+        owner: { $ref: '#/$defs/Missing' },
+        tags: { type: 'array', items: { type: 'string' }, uniqueItems: true }
+      },
+      required: ['name', 'id']
+    });
+
+    expect(Object.keys(definition)).toEqual(['name', 'ip', 'tags']);
+    expect(issues).toEqual([
+      { schemaPath: '#/properties/name', keyword: 'examples', message: 'Unsupported keyword "examples"' },
+      { schemaPath: '#/properties/ip', keyword: 'format', message: 'Unsupported string format "ipv4"' },
+      { schemaPath: '#/properties/score', keyword: 'type', message: 'Multiple types (string, number) cannot be mapped' },
+      { schemaPath: '#/properties/extra', keyword: 'type', message: 'Schemas without a "type" cannot be mapped' },
+      { schemaPath: '#/properties/extra', keyword: 'allOf', message: 'Unsupported keyword "allOf"' },
+      { schemaPath: '#/properties/owner', keyword: '$ref', message: 'Cannot resolve reference "#/$defs/Missing"' },
+      { schemaPath: '#/properties/tags', keyword: 'uniqueItems', message: 'Unsupported keyword "uniqueItems"' },
+      { schemaPath: '#', keyword: 'required', message: 'Required property "id" is not defined' }
+    ]);
+  });
+
+  test('reports patterns that do not compile', () => {
+    const { definition, issues } = fromJsonSchema({
+      type: 'object',
+      properties: {
+        code: { type: 'string', pattern: '(?i)abc' },
+        labels: { type: 'object', patternProperties: { '[a-': { type: 'string' } } }
+      },
+      required: ['code']
+    });
+
+    expect(Object.keys(definition)).toEqual(['code']);
+    expect(defineSchema(definition).safeParse({ code: 'ABC' }).success).toBe(true);
+    expect(issues).toEqual([
+      { schemaPath: '#/properties/code', keyword: 'pattern', message: 'Invalid regular expression "(?i)abc"' },
+      { schemaPath: '#/properties/labels', keyword: 'patternProperties', message: 'Invalid regular expression "[a-"' }
+    ]);
+  });
+
+  test('only recognises exported object shapes whose property schemas match', () => {
+    const { definition, issues } = fromJsonSchema({
+      type: 'object',
+      properties: {
+        window: {
+          type: 'object',
+          properties: { start: { type: 'integer' }, end: { type: 'integer' } },
+          required: ['start', 'end']
+        },
+        price: {
+          type: 'object',
+          properties: { amount: { type: 'number', multipleOf: 0.01 }, currency: { type: 'string', enum: ['USD'] } },
+          required: ['amount', 'currency'],
+          additionalProperties: false
+        },
+        reading: {
+          type: 'object',
+          properties: { value: { type: 'number' }, unit: { type: 'string' } },
+          required: ['value']
+        },
+        count: { type: 'number', default: 'x' },
+        level: { type: 'string', enum: ['low', 'high'], default: 'medium' },
+        label: { type: 'string', maxLength: 3, default: 'abc' }
+      },
+      required: ['window', 'price', 'reading']
+    });
+
+    expect(definition.window).toMatchObject({ kind: 'object', shape: { start: { kind: 'number' }, end: { kind: 'number' } } });
+    expect(definition.price).toMatchObject({ kind: 'money', options: { currencies: ['USD'] } });
+    expect(definition.reading).toMatchObject({ kind: 'object', shape: { value: { kind: 'number' }, unit: { optional: true } } });
+    expect(definition.count.hasDefault).toBe(false);
+    expect(definition.level.hasDefault).toBe(false);
+    expect(definition.label.hasDefault).toBe(true);
+    expect(issues).toEqual([
+      { schemaPath: '#/properties/price/properties/amount', keyword: 'multipleOf', message: 'Unsupported keyword "multipleOf"' },
+      { schemaPath: '#/properties/count', keyword: 'default', message: 'Default "x" does not match the schema' },
+      { schemaPath: '#/properties/level', keyword: 'default', message: 'Default "medium" does not match the schema' }
+    ]);
+  });
+});